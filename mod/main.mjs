@@ -17,12 +17,11 @@ const DEV_CHARACTER_STORAGE = {
 
 const TRANSFER_INVENTORY_MAX_LIMIT = 32;
 const GIFT_FLAG_RETURNED = 1 << 0;
+const GIFT_FLAG_MARKET_EXPIRED = 1 << 1;
 
 const CHARITY_TIMEOUT = 1000 * 60 * 60 * 24; // 24 hours
 const CHARITY_CHECK_TIMEOUT = 10 * 1000; // 10 seconds
 
-const CAMPAIGN_MAX_SOLO_CONTRIB_FAC = 0.25;
-
 const MARKET_ITEMS_PER_PAGE = 30;
 // #endregion
 
@@ -37,6 +36,8 @@ let last_charity_check = 0;
 let has_sorted_market_filter_items = false;
 let has_done_first_market_search = false;
 
+let market_rates = { sales_tax: 0, listing_fee: 0 };
+
 const skill_pets = new Map();
 // #endregion
 
@@ -50,6 +51,8 @@ const state = ui.createStore({
 
 	removing_friend: null,
 	gifting_friend: null,
+	gift_message: '',
+	gift_icon: '',
 
 	friend_code: '',
 	icon_search: '',
@@ -78,6 +81,11 @@ const state = ui.createStore({
 	campaign_pct: 0,
 	campaign_item_total: 0,
 	campaign_contribution: 0,
+	campaign_contribution_remaining: 0,
+	campaign_stage: 0,
+	campaign_stage_count: 1,
+	campaign_projected_completion: 0,
+	campaign_deadline: 0,
 	campaign_loading: false,
 	campaign_has_data: false,
 	campaign_history: [],
@@ -96,6 +104,8 @@ const state = ui.createStore({
 	market_sort_direction: 1,
 	market_completed: [],
 
+	campaign_milestones_claiming: new Set(),
+
 	market_total_items: 0,
 	market_current_page: 1,
 
@@ -195,16 +205,31 @@ const state = ui.createStore({
 		return this.get_item_icon(state.campaign_item_id);
 	},
 
-	get campaign_max_solo_contrib() {
-		return this.campaign_item_total * CAMPAIGN_MAX_SOLO_CONTRIB_FAC;
-	},
-
 	get campaign_max_solo_contrib_reached() {
-		return this.campaign_contribution >= this.campaign_max_solo_contrib;
+		return this.campaign_contribution_remaining <= 0;
 	},
 
 	get campaign_next_formatted() {
-		const delta = this.campaign_next_timestamp - this.campaign_update_time;
+		return this.format_campaign_time(this.campaign_next_timestamp);
+	},
+
+	get campaign_projected_formatted() {
+		return this.format_campaign_time(this.campaign_projected_completion);
+	},
+
+	get campaign_deadline_formatted() {
+		return this.format_campaign_time(this.campaign_deadline);
+	},
+
+	format_campaign_time(timestamp) {
+		return this.format_duration(timestamp - this.campaign_update_time);
+	},
+
+	format_trade_expiry(trade) {
+		return this.format_duration(trade.expires_in);
+	},
+
+	format_duration(delta) {
 		const seconds = Math.floor(delta / 1000);
 		
 		if (seconds < 60)
@@ -346,9 +371,8 @@ const state = ui.createStore({
 		});
 
 		if (res?.success) {
-			add_bank_item(res.item_id, res.item_qty);
 			game.gp.remove(res.gp_loss);
-
+			add_bank_item(res.item_id, res.item_qty);
 			state.market_buy_item.available = res.new_item_qty;
 		} else {
 			notify_error(res?.error_lang ?? 'MOD_KMM_MARKET_BUY_ERROR');
@@ -412,6 +436,36 @@ const state = ui.createStore({
 		update_market_listings();
 	},
 
+	async collect_all_market_payouts(event) {
+		const $button = event.currentTarget;
+
+		if (is_button_spinning($button))
+			return;
+
+		show_button_spinner($button);
+
+		const res = await api_post('/api/market/payout_all', {});
+		if (res?.success) {
+			if (res.payout > 0)
+				game.gp.add(res.payout);
+
+			for (const result of res.results) {
+				if (result.ended) {
+					state.market_listings = state.market_listings.filter(listing => listing.id !== result.id);
+					state.market_completed = state.market_completed.filter(listing => listing !== result.id);
+				} else {
+					const item = state.market_listings.find(listing => listing.id === result.id);
+					if (item)
+						item.payout += result.payout + result.tax;
+				}
+			}
+		} else {
+			notify_error('MOD_KMM_GENERIC_ERR');
+		}
+
+		hide_button_spinner($button);
+	},
+
 	async resolve_market_listing(event, item, cancel) {
 		const $button = event.currentTarget;
 
@@ -424,9 +478,13 @@ const state = ui.createStore({
 		if (res?.success) {
 			if (res.payout > 0) {
 				game.gp.add(res.payout);
-				item.payout += res.payout;
+				item.payout += res.payout + res.tax;
 			}
 
+			// unsold stock from a cancelled listing is handed back
+			if (cancel && res.item_qty > 0)
+				add_bank_item(res.item_id, res.item_qty);
+
 			if (cancel || res.ended) {
 				state.market_listings = state.market_listings.filter(listing => listing.id !== item.id);
 				state.market_completed = state.market_completed.filter(listing => listing !== item.id);
@@ -490,17 +548,29 @@ const state = ui.createStore({
 
 		show_button_spinner($button);
 
-		const res = await api_post('/api/campaign/contribute', { item_amount });
+		const res = await api_post('/api/campaign/contribute', { item_amount, item_id: state.campaign_item_id });
 		if (res?.success && res?.item_loss > 0) {
 			const remove_item = game.items.getObjectByID(res.item_id);
 			game.bank.removeItemQuantity(remove_item, res.item_loss);
 			state.campaign_contribution += res.item_loss;
+			state.campaign_contribution_remaining -= res.item_loss;
 			state.campaign_pct = res.campaign_pct;
 
+			// this contribution completed the stage, fetch the next one
+			if (res.campaign_stage !== res.stage) {
+				state.campaign_has_data = false;
+				update_campaign_info();
+			}
+
 			update_campaign_nav();
 			notify_item('MOD_KMM_CAMPAIGN_CONTRIBUTED', 'success', remove_item, res.item_loss);
 		} else {
-			notify_error('MOD_KMM_CAMPAIGN_CONTRIBUTE_ERR');
+			if (res?.error_lang === 'MOD_KMM_CAMPAIGN_STAGE_CHANGED') {
+				state.campaign_has_data = false;
+				update_campaign_info();
+			}
+
+			notify_error(res?.error_lang ?? 'MOD_KMM_CAMPAIGN_CONTRIBUTE_ERR');
 		}
 
 		hide_button_spinner($button);
@@ -514,19 +584,10 @@ const state = ui.createStore({
 
 		show_button_spinner($button);
 
-		let reward_mod = 1.6;
-
-		const campaign_pet = game.pets.getObjectByID(campaign.pet);
-		if (game.petManager.unlocked.has(campaign_pet))
-			reward_mod += 0.1;
-
-		const reward_item = game.items.getObjectByID(campaign.item_id);
-		const reward_value = (reward_item.sellsFor.quantity * campaign.item_amount) * reward_mod;
-
-		const res = await api_post('/api/campaign/claim', { campaign_id: campaign.id, value: reward_value });
+		const res = await api_post('/api/campaign/claim', { campaign_id: campaign.id });
 		if (res?.success) {
-			game.gp.add(reward_value);
-			campaign.taken = reward_value;
+			game.gp.add(res.reward);
+			campaign.taken = res.reward;
 		} else {
 			notify_error('MOD_KMM_GENERIC_ERR');
 		}
@@ -534,6 +595,10 @@ const state = ui.createStore({
 		hide_button_spinner($button);
 	},
 
+	get_placement_medal(placement) {
+		return this.get_svg(['medal_gold', 'medal_silver', 'medal_bronze'][placement - 1]);
+	},
+
 	get_campaign_ranking(campaign_id) {
 		return this.campaign_rankings[campaign_id] ?? 0;
 	},
@@ -639,6 +704,11 @@ const state = ui.createStore({
 			state.trades.push({
 				trade_id: res.trade_id,
 				state: 0,
+				attending: false,
+				revision: 1,
+				confirmed: false,
+				other_confirmed: false,
+				expires_in: res.expires_in,
 				data: null
 			});
 
@@ -663,14 +733,14 @@ const state = ui.createStore({
 	},
 
 	filter_trade_items_home(trade) {
-		return trade.data.items.filter(item => item.counter === (trade.attending ? 0 : 1));
+		return trade.data.items.filter(item => item.counter === trade.data.counter);
 	},
 
 	filter_trade_items_away(trade) {
-		return trade.data.items.filter(item => item.counter === (trade.attending ? 1 : 0));
+		return trade.data.items.filter(item => item.counter !== trade.data.counter);
 	},
 
-	async counter_trade(event, trade_id) {
+	async revise_trade(event, trade_id) {
 		const trade = state.trades.find(t => t.trade_id === trade_id);
 		if (!trade)
 			return;
@@ -681,8 +751,9 @@ const state = ui.createStore({
 
 		show_button_spinner($button);
 
-		const res = await api_post('/api/trade/counter', {
+		const res = await api_post('/api/trade/revise', {
 			trade_id,
+			revision: trade.revision,
 			items: state.transfer_inventory
 		});
 
@@ -691,6 +762,10 @@ const state = ui.createStore({
 		if (res?.success) {
 			clear_transfer_inventory();
 
+			// items from our previous revision are handed back
+			for (const item of res.items)
+				add_bank_item(item.item_id, item.qty);
+
 			state.trades = state.trades.filter(t => t.trade_id !== trade_id);
 
 			// this needs to happen on the next tick to prevent petite-vue breaking
@@ -700,6 +775,10 @@ const state = ui.createStore({
 					trade_id,
 					state: 1,
 					attending: false,
+					revision: res.revision,
+					confirmed: false,
+					other_confirmed: false,
+					expires_in: res.expires_in,
 					data: null
 				});
 
@@ -707,7 +786,7 @@ const state = ui.createStore({
 			}, 1);
 
 		} else {
-			notify_error('MOD_KMM_GENERIC_ERR');
+			notify_error(res?.error_lang ?? 'MOD_KMM_GENERIC_ERR');
 		}
 	},
 
@@ -753,6 +832,9 @@ const state = ui.createStore({
 		hide_button_spinner($button);
 
 		if (res?.success === true) {
+			for (const item of res.items)
+				add_bank_item(item.item_id, item.qty);
+
 			state.trades = state.trades.filter(trade => trade.trade_id !== trade_id);
 		} else {
 			notify_error('MOD_KMM_GENERIC_ERR');
@@ -771,17 +853,23 @@ const state = ui.createStore({
 
 		show_button_spinner($button);
 
-		const res = await api_post('/api/trade/accept', { trade_id });
+		const res = await api_post('/api/trade/confirm', { trade_id, revision: trade.revision });
 		hide_button_spinner($button);
 
 		if (res?.success === true) {
-			const items = trade.data.items.filter(item => item.counter === 1);
-			for (const item of items)
-				add_bank_item(item.item_id, item.qty);
+			if (res.complete) {
+				for (const item of res.items)
+					add_bank_item(item.item_id, item.qty);
 
-			state.trades = state.trades.filter(trade => trade.trade_id !== trade_id);
+				state.trades = state.trades.filter(trade => trade.trade_id !== trade_id);
+			} else {
+				// waiting on the other player to confirm the same revision
+				trade.attending = false;
+				trade.expires_in = res.expires_in;
+				trade.confirmed = true;
+			}
 		} else {
-			notify_error('MOD_KMM_GENERIC_ERR');
+			notify_error(res?.error_lang ?? 'MOD_KMM_GENERIC_ERR');
 		}
 	},
 
@@ -801,14 +889,9 @@ const state = ui.createStore({
 		hide_button_spinner($button);
 
 		if (res?.success === true) {
-			let items = trade.data.items;
-
-			if (trade.state === 1)
-				items = items.filter(item => item.counter === 1);
-
-			for (const item of items)
+			for (const item of res.items)
 				add_bank_item(item.item_id, item.qty);
-			
+
 			state.trades = state.trades.filter(trade => trade.trade_id !== trade_id);
 		} else {
 			notify_error('MOD_KMM_GENERIC_ERR');
@@ -821,6 +904,10 @@ const state = ui.createStore({
 		return (gift.data.flags & GIFT_FLAG_RETURNED) !== 0;
 	},
 
+	is_market_expired_gift(gift) {
+		return (gift.data.flags & GIFT_FLAG_MARKET_EXPIRED) !== 0;
+	},
+
 	async resolve_gift(event, gift_id, accept) {
 		const $button = event.currentTarget;
 
@@ -865,6 +952,11 @@ const state = ui.createStore({
 		this.close_modal();
 
 		state.gifting_friend = friend;
+		state.gift_message = '';
+		state.gift_icon = '';
+		state.icon_search = '';
+
+		setup_icons();
 
 		queue_modal('MOD_KMM_TITLE_CONFIRM_GIFT_RECIPIENT', 'confirm-gift-recipient-modal', 'assets/media/bank/present.png', {
 			showConfirmButton: false
@@ -882,7 +974,9 @@ const state = ui.createStore({
 
 		const res = await api_post('/api/gift/send', {
 			friend_id,
-			items: state.transfer_inventory
+			items: state.transfer_inventory,
+			message: state.gift_message,
+			icon_id: state.gift_icon
 		});
 
 		try {
@@ -957,6 +1051,10 @@ const state = ui.createStore({
 	// #endregion
 
 	// #region ICON PICK ACTIONS
+	pick_gift_icon(icon) {
+		this.gift_icon = this.gift_icon === icon.id ? '' : icon.id;
+	},
+
 	pick_icon(icon) {
 		this.picked_icon = icon.id;
 
@@ -1273,6 +1371,10 @@ async function market_create_listing(item, item_qty, item_sell_price) {
 	if (item.isModded)
 		return notify_error('MOD_KMM_MARKET_CANNOT_SELL_MODDED');
 
+	const listing_fee = get_market_listing_fee(item_qty, item_sell_price);
+	if (game.gp.amount < listing_fee)
+		return notify_error('MOD_KMM_MARKET_INSUFFICIENT_GP');
+
 	const res = await api_post('/api/market/sell', {
 		item_id: item.id,
 		item_qty,
@@ -1280,6 +1382,7 @@ async function market_create_listing(item, item_qty, item_sell_price) {
 	});
 
 	if (res?.success) {
+		game.gp.remove(res.gp_loss);
 		game.bank.removeItemQuantity(item, item_qty);
 		notify('MOD_KMM_MARKET_ITEM_LISTED', 'success', 'assets/marker.svg', item_qty);
 
@@ -1290,6 +1393,16 @@ async function market_create_listing(item, item_qty, item_sell_price) {
 	}
 }
 
+function get_market_listing_fee(item_qty, item_price) {
+	return Math.ceil(item_qty * item_price * market_rates.listing_fee);
+}
+
+async function update_market_rates() {
+	const res = await api_get('/api/market/rates');
+	if (res?.success)
+		market_rates = { sales_tax: res.sales_tax, listing_fee: res.listing_fee };
+}
+
 async function update_market_listings() {
 	if (state.market_listings_loading)
 		return;
@@ -1370,6 +1483,11 @@ async function update_campaign_info() {
 			state.campaign_item_id = res.item_id;
 			state.campaign_item_total = res.item_total;
 			state.campaign_contribution = res.contribution;
+			state.campaign_contribution_remaining = res.contribution_remaining;
+			state.campaign_stage = res.stage;
+			state.campaign_stage_count = res.stages.length;
+			state.campaign_projected_completion = res.projected_completion ?? 0;
+			state.campaign_deadline = res.deadline;
 		} else {
 			state.campaign_next_timestamp = res.next_campaign;
 		}
@@ -1629,6 +1747,22 @@ async function get_friends() {
 		state.friends = res.friends;
 }
 
+async function claim_campaign_milestone(milestone_id) {
+	if (state.campaign_milestones_claiming.has(milestone_id))
+		return;
+
+	state.campaign_milestones_claiming.add(milestone_id);
+
+	const res = await api_post('/api/campaign/milestone_claim', { id: milestone_id });
+	if (res?.success) {
+		game.gp.add(res.reward);
+		notify('MOD_KMM_CAMPAIGN_MILESTONE_REWARD', 'success', 'assets/campaigns.svg', res.reward);
+	} else {
+		// allow the next events poll to retry
+		state.campaign_milestones_claiming.delete(milestone_id);
+	}
+}
+
 async function get_client_events() {
 	const res = await api_get('/api/events');
 	if (res !== null) {
@@ -1636,21 +1770,21 @@ async function get_client_events() {
 		state.market_completed = res.market_completed;
 
 		for (const trade of res.trades) {
-			// .trade_id, .attending, .state
+			// .trade_id, .attending, .state, .revision, .confirmed, .other_confirmed
 			const cache_trade = state.trades.find(e => e.trade_id === trade.trade_id);
 			if (cache_trade) {
-				if (cache_trade.state !== trade.state) {
+				if (cache_trade.state !== trade.state || cache_trade.revision !== trade.revision) {
 					// remove the existing trade from trades
 					state.trades = state.trades.filter(e => e.trade_id !== trade.trade_id);
 
 					setTimeout(() => {
-						state.trades.push({
-							trade_id: cache_trade.trade_id,
-							state: trade.state,
-							attending: trade.attending,
-							data: null
-						});
+						state.trades.push(Object.assign({ data: null }, trade));
 					}, 1);
+				} else {
+					cache_trade.attending = trade.attending;
+					cache_trade.confirmed = trade.confirmed;
+					cache_trade.other_confirmed = trade.other_confirmed;
+					cache_trade.expires_in = trade.expires_in;
 				}
 			} else {
 				state.trades.push(Object.assign({ data: null }, trade));
@@ -1667,15 +1801,20 @@ async function get_client_events() {
 				state.gifts.push({ id: gift_id, data: null });
 		}
 
+		for (const milestone_id of res.campaign_milestones)
+			claim_campaign_milestone(milestone_id);
+
 		if (state.campaign_active && !res.campaign.active) {
 			// campaign no longer active, ditch known data client-side
 			state.campaign_id = '';
 			state.campaign_item_id = '';
 			state.campaign_item_total = 0;
 			state.campaign_contribution = 0;
+			state.campaign_stage = 0;
+			state.campaign_stage_count = 1;
 		}
 
-		const campaign_state_changed = state.campaign_active !== res.campaign.active;
+		const campaign_state_changed = state.campaign_active !== res.campaign.active || (res.campaign.active && state.campaign_stage !== res.campaign.stage);
 
 		state.campaign_pct = res.campaign.pct;
 		state.campaign_active = res.campaign.active;
@@ -1738,11 +1877,13 @@ export async function setup(ctx) {
 	});
 }
 
-function setup_icons() {
+async function setup_icons() {
 	if (state.available_icons.length === 0) {
-		const namespace_maps = game.items.namespaceMaps;
-		state.available_icons = [...namespace_maps.get('melvorF'), ...namespace_maps.get('melvorD')].map(e => {
-			const item = e[1];
+		// only icons in the server item catalogue can be picked
+		const res = await api_get('/api/client/icons');
+		const items = (res?.icons ?? []).map(icon_id => game.items.getObjectByID(icon_id)).filter(item => item !== undefined);
+
+		state.available_icons = items.map(item => {
 			return {id: item.id, search_name: item.name.toLowerCase(), media: item.media };
 		});
 	}
@@ -1765,7 +1906,11 @@ function patch_bank_market() {
 		const amount = slider.quantity;
 		const sell_total = amount * sell_price;
 
-		$sell_value.textContent = selected_bank_item.item.sellsFor.currency.formatAmount(numberWithCommas(sell_total));
+		// show net proceeds after the listing fee and sales tax
+		const sell_fees = get_market_listing_fee(amount, sell_price) + Math.floor(sell_total * market_rates.sales_tax);
+		const sell_net = Math.max(sell_total - sell_fees, 0);
+
+		$sell_value.textContent = selected_bank_item.item.sellsFor.currency.formatAmount(numberWithCommas(sell_net));
 	}
 
 	const $sell_amount_input = document.getElementById('kmm-market-sell-amount');
@@ -1787,9 +1932,24 @@ function patch_bank_market() {
 		update_bank_item.call(this, orig_update_item_quantity, ...args);
 	}
 
+	// suggest a price based on recent market sales, if there are any
+	async function suggest_sell_price(item) {
+		if (item.isModded)
+			return;
+
+		const res = await api_post('/api/market/history', { item_id: item.id });
+		if (!res?.success || res.vwap <= 0 || selected_bank_item?.item !== item)
+			return;
+
+		sell_price = Math.max(Math.round(res.vwap), 1);
+		$sell_price_input.value = sell_price;
+		update_sell_value();
+	}
+
 	const orig_set_item = $bank_item_menu.setItem;
 	$bank_item_menu.setItem = function(...args) {
 		update_bank_item.call(this, orig_set_item, ...args);
+		suggest_sell_price(selected_bank_item.item);
 	}
 
 	$sell_amount_input.addEventListener('input', () => slider.setSliderPosition($sell_amount_input.value));
@@ -1930,6 +2090,7 @@ async function start_multiplayer_session() {
 
 			get_client_events();
 			get_friends();
+			update_market_rates();
 		} else {
 			notify_error('MOD_KMM_MULTIPLAYER_CONNECTION_ERR');
 			error('failed to authenticate client, multiplayer features not available');
@@ -1953,6 +2114,7 @@ async function start_multiplayer_session() {
 			set_session_token(register_res.session_token);
 			get_client_events();
 			get_friends();
+			update_market_rates();
 		} else {
 			notify_error('MOD_KMM_MULTIPLAYER_CONNECTION_ERR');
 			error('failed to register client, multiplayer features not available');
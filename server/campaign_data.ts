@@ -1,144 +1,205 @@
+export type CampaignItem = {
+	id: string;
+	min: number;
+	max: number;
+}
+
+// inclusive UTC month-day range, such as 12-01 to 01-07, which may wrap the year.
+export type CampaignWindow = {
+	start: string;
+	end: string;
+}
+
 export type CampaignData = {
 	id: string;
-	items: string[];
+	weight: number;
+	cooldown: number; // number of recent campaigns in the same slot this campaign cannot follow
+	restart_timer: number;
+	deadline?: number; // time allowed before the campaign fails
+	window?: CampaignWindow;
+
+	// each stage is unlocked in order once the previous stage is filled.
+	stages: CampaignItem[][];
+}
+
+// each slot runs its own campaign concurrently, with its own progress and restart timer.
+export type CampaignSlot = {
+	id: string;
+	campaigns: string[];
+}
+
+export type CampaignConfig = {
+	slots: CampaignSlot[];
+	campaigns: CampaignData[];
+}
+
+// rewards are the base value (sells_for in the item catalogue) of contributed items multiplied by this.
+export const CAMPAIGN_REWARD_MOD = 1.6;
+
+// owning a campaign pet adds this to the reward multiplier for campaigns of the same id.
+export const CAMPAIGN_PET_REWARD_BONUS = 0.1;
+
+// completed campaigns of the same id required to own its pet.
+export const CAMPAIGN_PET_RANKING = 4;
+
+// bonus reward factor for the top contributors of a campaign, indexed by placement - 1
+export const CAMPAIGN_TOP_REWARD_TIERS = [0.5, 0.3, 0.15];
+
+// overall progress at which everyone who has contributed so far earns a milestone reward.
+export const CAMPAIGN_MILESTONES = [0.25, 0.5, 0.75];
+
+// milestone rewards are the base value of items contributed so far multiplied by this.
+export const CAMPAIGN_MILESTONE_REWARD_FAC = 0.05;
+
+export const CAMPAIGN_CONFIG_FILE = './data/campaigns.json';
+
+const CAMPAIGN_WINDOW_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function is_positive_int(value: unknown): value is number {
+	return Number.isInteger(value) && (value as number) > 0;
+}
+
+function parse_campaign_items(items: unknown, path: string, item_min: unknown, item_max: unknown, known_items: Set<string>, errors: string[]): CampaignItem[] {
+	if (!Array.isArray(items) || items.length === 0) {
+		errors.push(path + ' must be a non-empty array');
+		return [];
+	}
+
+	const parsed = [] as CampaignItem[];
+	for (let i = 0; i < items.length; i++) {
+		// items are either an item id using the campaign defaults, or { id, min, max }
+		const entry = typeof items[i] === 'string' ? { id: items[i] } : items[i];
+		const entry_path = path + '[' + i + ']';
+
+		if (typeof entry?.id !== 'string' || !known_items.has(entry.id)) {
+			errors.push(entry_path + ' is not a known item');
+			continue;
+		}
+
+		const min = entry.min ?? item_min;
+		const max = entry.max ?? item_max;
+
+		if (!is_positive_int(min) || !is_positive_int(max) || min > max) {
+			errors.push(entry_path + ' has an invalid quantity range');
+			continue;
+		}
+
+		parsed.push({ id: entry.id, min, max });
+	}
+
+	return parsed;
 }
 
-export const AVAILABLE_CAMPAIGNS = [
-	{
-		id: 'campaign_desert',
-		items: [
-			'melvorD:Topaz',
-			'melvorD:Sapphire',
-			'melvorD:Ruby',
-			'melvorD:Emerald',
-			'melvorD:Diamond',
-			'melvorD:Silver_Bar',
-			'melvorD:Gold_Bar',
-			'melvorD:Small_Urn',
-			'melvorD:Medium_Urn'
-		]
-	},
-	{
-		id: 'campaign_snow',
-		items: [
-			'melvorD:Rune_Essence',
-			'melvorD:Air_Rune',
-			'melvorD:Mind_Rune',
-			'melvorD:Water_Rune',
-			'melvorD:Earth_Rune',
-			'melvorD:Fire_Rune',
-			'melvorD:Body_Rune',
-			'melvorD:Chaos_Rune',
-			'melvorD:Death_Rune',
-			'melvorD:Blood_Rune',
-			'melvorD:Ancient_Rune',
-			'melvorD:Raw_Shrimp',
-			'melvorD:Raw_Sardine',
-			'melvorD:Raw_Herring',
-			'melvorD:Raw_Trout',
-			'melvorD:Raw_Salmon',
-			'melvorD:Raw_Lobster',
-			'melvorD:Raw_Swordfish',
-			'melvorD:Raw_Crab',
-			'melvorD:Raw_Shark',
-			'melvorD:Raw_Cave_Fish',
-			'melvorD:Raw_Manta_Ray',
-			'melvorD:Raw_Whale',
-			'melvorD:Shrimp',
-			'melvorD:Sardine',
-			'melvorD:Herring',
-			'melvorD:Trout',
-			'melvorD:Salmon',
-			'melvorD:Lobster',
-			'melvorD:Swordfish',
-			'melvorD:Crab',
-			'melvorD:Shark',
-			'melvorD:Cave_Fish',
-			'melvorD:Manta_Ray',
-			'melvorD:Whale'
-		]
-	},
-	{
-		id: 'campaign_forest',
-		items: [
-			'melvorF:Poraxx_Herb',
-			'melvorF:Pigtayle_Herb',
-			'melvorF:Barrentoe_Herb',
-			'melvorF:Poraxx_Seed',
-			'melvorF:Pigtayle_Seed',
-			'melvorF:Barrentoe_Seed',
-			'melvorD:Garum_Herb',
-			'melvorD:Sourweed_Herb',
-			'melvorD:Mantalyme_Herb',
-			'melvorD:Lemontyle_Herb',
-			'melvorD:Oxilyme_Herb',
-			'melvorD:Garum_Seed',
-			'melvorD:Sourweed_Seed',
-			'melvorD:Mantalyme_Seed',
-			'melvorD:Lemontyle_Seed',
-			'melvorD:Oxilyme_Seed',
-			'melvorD:Potato_Seed',
-			'melvorD:Onion_Seed',
-			'melvorD:Cabbage_Seed',
-			'melvorD:Tomato_Seed',
-			'melvorD:Sweetcorn_Seed',
-			'melvorD:Strawberry_Seed',
-			'melvorD:Watermelon_Seed',
-			'melvorD:Snape_Grass_Seed',
-			'melvorD:Bird_Nest'
-		]
-	},
-	{
-		id: 'campaign_forsaken',
-		items: [
-			'melvorD:Bones',
-			'melvorD:Dragon_Bones',
-			'melvorD:Magic_Bones',
-			'melvorD:Big_Bones',
-			'melvorD:Bronze_Arrows',
-			'melvorD:Iron_Arrows',
-			'melvorD:Steel_Arrows',
-			'melvorD:Mithril_Arrows',
-			'melvorD:Adamant_Arrows',
-			'melvorD:Rune_Arrows',
-			'melvorD:Dragon_Arrows',
-			'melvorD:Bronze_Arrowtips',
-			'melvorD:Iron_Arrowtips',
-			'melvorD:Steel_Arrowtips',
-			'melvorD:Mithril_Arrowtips',
-			'melvorD:Adamant_Arrowtips',
-			'melvorD:Rune_Arrowtips',
-			'melvorD:Dragon_Arrowtips'
-		]
-	},
-	{
-		id: 'campaign_jungle',
-		items: [
-			'melvorD:Normal_Logs',
-			'melvorD:Oak_Logs',
-			'melvorD:Willow_Logs',
-			'melvorD:Teak_Logs',
-			'melvorD:Maple_Logs',
-			'melvorD:Mahogany_Logs',
-			'melvorD:Yew_Logs',
-			'melvorD:Magic_Logs',
-			'melvorD:Redwood_Logs'
-		]
-	},
-	{
-		id: 'campaign_volcanic',
-		items: [
-			'melvorD:Copper_Ore',
-			'melvorD:Tin_Ore',
-			'melvorD:Iron_Ore',
-			'melvorD:Coal_Ore',
-			'melvorD:Silver_Ore',
-			'melvorD:Gold_Ore',
-			'melvorD:Mithril_Ore',
-			'melvorD:Adamantite_Ore',
-			'melvorD:Runite_Ore',
-			'melvorD:Dragonite_Ore',
-			'melvorF:Ash'
-		]
+function parse_campaign(data: any, path: string, known_items: Set<string>, errors: string[]): CampaignData | null {
+	if (typeof data?.id !== 'string' || data.id.length === 0 || data.id.length > 20) {
+		errors.push(path + '.id must be a string of 1-20 characters');
+		return null;
 	}
-];
\ No newline at end of file
+
+	path += '(' + data.id + ')';
+
+	const weight = data.weight ?? 1;
+	if (typeof weight !== 'number' || weight <= 0)
+		errors.push(path + '.weight must be a positive number');
+
+	const cooldown = data.cooldown ?? 0;
+	if (!Number.isInteger(cooldown) || cooldown < 0)
+		errors.push(path + '.cooldown must be a non-negative integer');
+
+	if (!is_positive_int(data.restart_timer))
+		errors.push(path + '.restart_timer must be a positive integer');
+
+	if (data.deadline !== undefined && !is_positive_int(data.deadline))
+		errors.push(path + '.deadline must be a positive integer');
+
+	const window = data.window;
+	if (window !== undefined && (!CAMPAIGN_WINDOW_PATTERN.test(window?.start) || !CAMPAIGN_WINDOW_PATTERN.test(window?.end)))
+		errors.push(path + '.window must have start and end in MM-DD format');
+
+	if (data.stages !== undefined && !Array.isArray(data.stages))
+		errors.push(path + '.stages must be an array');
+
+	const stages = [parse_campaign_items(data.items, path + '.items', data.item_min, data.item_max, known_items, errors)];
+	if (Array.isArray(data.stages)) {
+		for (let i = 0; i < data.stages.length; i++)
+			stages.push(parse_campaign_items(data.stages[i], path + '.stages[' + i + ']', data.item_min, data.item_max, known_items, errors));
+	}
+
+	return {
+		id: data.id,
+		weight,
+		cooldown,
+		restart_timer: data.restart_timer,
+		deadline: data.deadline,
+		window: window === undefined ? undefined : { start: window.start, end: window.end },
+		stages
+	};
+}
+
+// validates raw campaign definitions, throwing an error listing every problem found.
+export function parse_campaign_config(data: any, known_items: Set<string>): CampaignConfig {
+	const errors = [] as string[];
+	const campaigns = [] as CampaignData[];
+	const slots = [] as CampaignSlot[];
+
+	if (!Array.isArray(data?.campaigns) || data.campaigns.length === 0) {
+		errors.push('campaigns must be a non-empty array');
+	} else {
+		for (let i = 0; i < data.campaigns.length; i++) {
+			const campaign = parse_campaign(data.campaigns[i], 'campaigns[' + i + ']', known_items, errors);
+			if (campaign === null)
+				continue;
+
+			if (campaigns.some(entry => entry.id === campaign.id))
+				errors.push('campaigns[' + i + '] duplicates id ' + campaign.id);
+
+			campaigns.push(campaign);
+		}
+	}
+
+	if (!Array.isArray(data?.slots) || data.slots.length === 0) {
+		errors.push('slots must be a non-empty array');
+	} else {
+		for (let i = 0; i < data.slots.length; i++) {
+			const slot = data.slots[i];
+			const path = 'slots[' + i + ']';
+
+			if (typeof slot?.id !== 'string' || slot.id.length === 0 || slot.id.length > 20) {
+				errors.push(path + '.id must be a string of 1-20 characters');
+				continue;
+			}
+
+			if (slots.some(entry => entry.id === slot.id))
+				errors.push(path + ' duplicates id ' + slot.id);
+
+			if (!Array.isArray(slot.campaigns) || slot.campaigns.length === 0) {
+				errors.push(path + '.campaigns must be a non-empty array');
+				continue;
+			}
+
+			for (const campaign_id of slot.campaigns) {
+				if (!campaigns.some(entry => entry.id === campaign_id))
+					errors.push(path + '.campaigns references unknown campaign ' + campaign_id);
+			}
+
+			slots.push({ id: slot.id, campaigns: slot.campaigns });
+		}
+	}
+
+	if (errors.length > 0)
+		throw new Error('invalid campaign config: ' + errors.join(', '));
+
+	return { slots, campaigns };
+}
+
+export function is_campaign_window_open(window: CampaignWindow | undefined, date: Date): boolean {
+	if (window === undefined)
+		return true;
+
+	const today = (date.getUTCMonth() + 1).toString().padStart(2, '0') + '-' + date.getUTCDate().toString().padStart(2, '0');
+
+	if (window.start <= window.end)
+		return today >= window.start && today <= window.end;
+
+	return today >= window.start || today <= window.end;
+}
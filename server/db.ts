@@ -11,7 +11,7 @@ const db_pool = await db_init_schema_mysql_pool({
 
 export { db_pool as db };
 
-type PoolConnection = ReturnType<typeof db_pool.getConnection> extends Promise<infer T> ? T : never;
+export type PoolConnection = ReturnType<typeof db_pool.getConnection> extends Promise<infer T> ? T : never;
 type db = typeof db_pool | PoolConnection;
 
 export async function db_execute(sql: string, values: any = []): Promise<void> {
@@ -57,4 +57,43 @@ export async function db_insert(sql: string, values: any = []): Promise<number>
 		caution('sql: db_insert failed', { error });
 		return -1;
 	}
-};
\ No newline at end of file
+};
+
+export async function db_transaction<T>(callback: (conn: PoolConnection) => Promise<T>): Promise<T|null> {
+	const conn = await db_pool.getConnection();
+	try {
+		await conn.beginTransaction();
+		const result = await callback(conn);
+		await conn.commit();
+
+		return result;
+	} catch (error) {
+		await conn.rollback();
+		caution('sql: db_transaction failed', { error });
+		return null;
+	} finally {
+		conn.release();
+	}
+}
+
+// note: db_tx_* functions do not catch errors, allowing db_transaction to roll back.
+export async function db_tx_execute(conn: PoolConnection, sql: string, values: any = []): Promise<void> {
+	await conn.query(sql, values);
+}
+
+export async function db_tx_get_all(conn: PoolConnection, sql: string, values: any = []): Promise<RowDataPacket[]> {
+	const [rows] = await conn.execute(sql, values);
+	return rows as RowDataPacket[];
+}
+
+export async function db_tx_get_single(conn: PoolConnection, sql: string, values: any = []): Promise<RowDataPacket|null> {
+	const rows = await db_tx_get_all(conn, sql, values);
+	return rows[0] ?? null;
+}
+
+export async function db_tx_insert(conn: PoolConnection, sql: string, values: any = []): Promise<number> {
+	const [result] = await conn.query(sql, values);
+
+	// @ts-ignore result is ResultSetHeader, but ts doesn't like that
+	return result?.insertId ?? -1;
+}
\ No newline at end of file
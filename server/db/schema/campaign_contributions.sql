@@ -8,4 +8,11 @@ CREATE TABLE `campaign_contributions` (
 );
 
 -- [2] change taken to BIGINT UNSIGNED
-ALTER TABLE `campaign_contributions` MODIFY COLUMN `taken` BIGINT UNSIGNED NOT NULL DEFAULT 0;
\ No newline at end of file
+ALTER TABLE `campaign_contributions` MODIFY COLUMN `taken` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+
+-- [3] add placement column
+ALTER TABLE `campaign_contributions` ADD COLUMN `placement` INT UNSIGNED NOT NULL DEFAULT 0;
+
+-- [4] add team_id column
+ALTER TABLE `campaign_contributions` ADD COLUMN `team_id` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+CREATE INDEX `idx_campaign_id_team_id` ON `campaign_contributions` (`campaign_id`, `team_id`);
\ No newline at end of file
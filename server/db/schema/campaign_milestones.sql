@@ -0,0 +1,11 @@
+-- [1] table creation
+CREATE TABLE `campaign_milestones` (
+	`id` SERIAL,
+	`campaign_id` BIGINT UNSIGNED NOT NULL,
+	`client_id` BIGINT UNSIGNED NOT NULL,
+	`pct` TINYINT UNSIGNED NOT NULL,
+	`reward` BIGINT UNSIGNED NOT NULL,
+	`claimed` TINYINT UNSIGNED NOT NULL DEFAULT 0,
+	`timestamp` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_client_id` (`client_id`)
+);
\ No newline at end of file
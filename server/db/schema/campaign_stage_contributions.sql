@@ -0,0 +1,8 @@
+-- [1] table creation
+CREATE TABLE `campaign_stage_contributions` (
+	`campaign_id` BIGINT UNSIGNED NOT NULL,
+	`client_id` BIGINT UNSIGNED NOT NULL,
+	`stage` TINYINT UNSIGNED NOT NULL,
+	`item_amount` BIGINT UNSIGNED NOT NULL DEFAULT 0,
+	PRIMARY KEY (`campaign_id`, `client_id`, `stage`)
+);
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- [1] table creation
+CREATE TABLE `campaign_stages` (
+	`campaign_id` BIGINT UNSIGNED NOT NULL,
+	`stage` TINYINT UNSIGNED NOT NULL,
+	`item_id` VARCHAR(255) NOT NULL,
+	`item_amount` INT UNSIGNED NOT NULL,
+	`item_current` INT UNSIGNED NOT NULL DEFAULT 0,
+	PRIMARY KEY (`campaign_id`, `stage`)
+);
\ No newline at end of file
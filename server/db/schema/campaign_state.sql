@@ -1,3 +1,5 @@
+-- [deps] campaign_stages.sql, campaign_stage_contributions.sql, campaign_contributions.sql
+
 -- [1] table creation
 CREATE TABLE `campaign_state` (
 	`id` SERIAL,
@@ -7,4 +9,31 @@ CREATE TABLE `campaign_state` (
 	`item_current` INT UNSIGNED NOT NULL DEFAULT 0,
 	`complete` TINYINT UNSIGNED NOT NULL DEFAULT 0,
 	`campaign_next` BIGINT UNSIGNED NOT NULL DEFAULT 0
-);
\ No newline at end of file
+);
+
+-- [2] add slot_id column
+ALTER TABLE `campaign_state` ADD COLUMN `slot_id` VARCHAR(20) NOT NULL DEFAULT 'main';
+CREATE INDEX `idx_slot_id` ON `campaign_state` (`slot_id`);
+
+-- [3] add stage column, move existing campaigns into campaign_stages
+ALTER TABLE `campaign_state` ADD COLUMN `stage` TINYINT UNSIGNED NOT NULL DEFAULT 0;
+INSERT INTO `campaign_stages` (`campaign_id`, `stage`, `item_id`, `item_amount`, `item_current`) SELECT `id`, 0, `item_id`, `item_amount`, `item_current` FROM `campaign_state`;
+INSERT INTO `campaign_stage_contributions` (`campaign_id`, `client_id`, `stage`, `item_amount`) SELECT `campaign_id`, `client_id`, 0, `item_amount` FROM `campaign_contributions`;
+
+-- [4] add timestamps and difficulty columns
+ALTER TABLE `campaign_state` ADD COLUMN `started` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE `campaign_state` ADD COLUMN `finished` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE `campaign_state` ADD COLUMN `size_fac` DOUBLE NOT NULL DEFAULT 1;
+ALTER TABLE `campaign_state` ADD COLUMN `baseline_fac` DOUBLE NOT NULL DEFAULT 1;
+
+-- [5] add outcome, progress and deadline columns
+ALTER TABLE `campaign_state` ADD COLUMN `outcome` TINYINT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE `campaign_state` ADD COLUMN `progress` DOUBLE NOT NULL DEFAULT 0;
+ALTER TABLE `campaign_state` ADD COLUMN `deadline` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+UPDATE `campaign_state` SET `outcome` = 1, `progress` = 1 WHERE `complete` = 1;
+
+-- [6] add baseline column
+ALTER TABLE `campaign_state` ADD COLUMN `baseline` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+
+-- [7] add milestone column
+ALTER TABLE `campaign_state` ADD COLUMN `milestone` TINYINT UNSIGNED NOT NULL DEFAULT 0;
\ No newline at end of file
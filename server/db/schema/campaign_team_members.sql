@@ -0,0 +1,7 @@
+-- [1] table creation
+CREATE TABLE `campaign_team_members` (
+	`client_id` BIGINT UNSIGNED NOT NULL PRIMARY KEY,
+	`team_id` BIGINT UNSIGNED NOT NULL,
+	`joined` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_team_id` (`team_id`)
+);
\ No newline at end of file
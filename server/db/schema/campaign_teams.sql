@@ -0,0 +1,8 @@
+-- [1] table creation
+CREATE TABLE `campaign_teams` (
+	`id` SERIAL,
+	`owner_id` BIGINT UNSIGNED NOT NULL,
+	`name` VARCHAR(20) NOT NULL,
+	`created` BIGINT UNSIGNED NOT NULL,
+	UNIQUE INDEX `idx_owner_id` (`owner_id`)
+);
\ No newline at end of file
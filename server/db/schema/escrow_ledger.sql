@@ -0,0 +1,23 @@
+-- [deps] gift_items.sql, trade_items.sql, market_items.sql, market_orders.sql
+
+-- [1] table creation
+CREATE TABLE `escrow_ledger` (
+	`id` SERIAL,
+	`item_id` VARCHAR(255) NOT NULL,
+	`qty` BIGINT UNSIGNED NOT NULL,
+	`debit_type` TINYINT UNSIGNED NOT NULL,
+	`debit_id` BIGINT UNSIGNED NOT NULL,
+	`credit_type` TINYINT UNSIGNED NOT NULL,
+	`credit_id` BIGINT UNSIGNED NOT NULL,
+	`timestamp` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_debit` (`debit_type`, `debit_id`),
+	INDEX `idx_credit` (`credit_type`, `credit_id`)
+);
+
+-- [2] opening escrow balances for items held before the ledger existed
+-- account types match EscrowAccount: 1 Gift, 2 TradeSender, 3 TradeRecipient, 4 MarketLot, 5 MarketOrder, 6 System
+-- every opening balance is debited from the system account
+INSERT INTO `escrow_ledger` (`item_id`, `qty`, `debit_type`, `debit_id`, `credit_type`, `credit_id`, `timestamp`) SELECT `item_id`, `qty`, 6, 0, 1, `gift_id`, UNIX_TIMESTAMP() * 1000 FROM `gift_items`;
+INSERT INTO `escrow_ledger` (`item_id`, `qty`, `debit_type`, `debit_id`, `credit_type`, `credit_id`, `timestamp`) SELECT `item_id`, `qty`, 6, 0, 2 + `counter`, `trade_id`, UNIX_TIMESTAMP() * 1000 FROM `trade_items`;
+INSERT INTO `escrow_ledger` (`item_id`, `qty`, `debit_type`, `debit_id`, `credit_type`, `credit_id`, `timestamp`) SELECT `item_id`, `available`, 6, 0, 4, `id`, UNIX_TIMESTAMP() * 1000 FROM `market_items` WHERE `available` > 0;
+INSERT INTO `escrow_ledger` (`item_id`, `qty`, `debit_type`, `debit_id`, `credit_type`, `credit_id`, `timestamp`) SELECT `item_id`, `filled` - `claimed`, 6, 0, 5, `id`, UNIX_TIMESTAMP() * 1000 FROM `market_orders` WHERE `filled` > `claimed`;
\ No newline at end of file
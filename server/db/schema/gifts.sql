@@ -5,4 +5,9 @@ CREATE TABLE `gifts` (
 	`sender_id` BIGINT UNSIGNED NOT NULL,
 	`flags` INT UNSIGNED NOT NULL DEFAULT 0,
 	INDEX `idx_client_id` (`client_id`)
-);
\ No newline at end of file
+);
+
+-- [2] add message and icon_id columns
+ALTER TABLE `gifts` ADD COLUMN `message` VARCHAR(20) NOT NULL DEFAULT '';
+ALTER TABLE `gifts` ADD COLUMN `icon_id` VARCHAR(255) NOT NULL DEFAULT '';
+CREATE INDEX `idx_client_id_sender_id` ON `gifts` (`client_id`, `sender_id`);
\ No newline at end of file
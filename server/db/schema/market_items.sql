@@ -18,4 +18,8 @@ CREATE INDEX `idx_item_id_price` ON `market_items` (`item_id`, `price`);
 ALTER TABLE `market_items` CHANGE `sold` `available` BIGINT UNSIGNED NOT NULL;
 
 -- [4] add `payout` column
-ALTER TABLE `market_items` ADD `payout` BIGINT UNSIGNED NOT NULL DEFAULT 0;
\ No newline at end of file
+ALTER TABLE `market_items` ADD `payout` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+
+-- [5] add `listed` column, existing listings are treated as listed now
+ALTER TABLE `market_items` ADD `listed` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+UPDATE `market_items` SET `listed` = UNIX_TIMESTAMP() * 1000;
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- [1] table creation
+CREATE TABLE `market_orders` (
+	`id` SERIAL,
+	`client_id` BIGINT UNSIGNED NOT NULL,
+	`item_id` VARCHAR(255) NOT NULL,
+	`qty` BIGINT UNSIGNED NOT NULL,
+	`filled` BIGINT UNSIGNED NOT NULL DEFAULT 0,
+	`claimed` BIGINT UNSIGNED NOT NULL DEFAULT 0,
+	`price` BIGINT UNSIGNED NOT NULL,
+	`refund` BIGINT UNSIGNED NOT NULL DEFAULT 0,
+	INDEX `idx_client_id` (`client_id`),
+	INDEX `idx_item_id_price` (`item_id`, `price`)
+);
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- [1] table creation
+CREATE TABLE `market_sales` (
+	`id` SERIAL,
+	`item_id` VARCHAR(255) NOT NULL,
+	`qty` BIGINT UNSIGNED NOT NULL,
+	`price` BIGINT UNSIGNED NOT NULL,
+	`seller_id` BIGINT UNSIGNED NOT NULL,
+	`buyer_id` BIGINT UNSIGNED NOT NULL,
+	`timestamp` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_item_id_timestamp` (`item_id`, `timestamp`)
+);
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- [1] table creation
+CREATE TABLE `market_tax` (
+	`id` SERIAL,
+	`client_id` BIGINT UNSIGNED NOT NULL,
+	`source` VARCHAR(20) NOT NULL,
+	`amount` BIGINT UNSIGNED NOT NULL,
+	`timestamp` BIGINT UNSIGNED NOT NULL
+);
\ No newline at end of file
@@ -7,4 +7,8 @@ CREATE TABLE `resolved_trade_offers` (
 );
 
 -- [2] add `declined` field
-ALTER TABLE `resolved_trade_offers` ADD COLUMN `declined` TINYINT(1) NOT NULL DEFAULT 0;
\ No newline at end of file
+ALTER TABLE `resolved_trade_offers` ADD COLUMN `declined` TINYINT(1) NOT NULL DEFAULT 0;
+
+-- [3] resolve each side of a trade separately
+ALTER TABLE `resolved_trade_offers` ADD COLUMN `counter` TINYINT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE `resolved_trade_offers` DROP PRIMARY KEY, ADD PRIMARY KEY (`trade_id`, `client_id`);
\ No newline at end of file
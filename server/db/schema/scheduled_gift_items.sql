@@ -0,0 +1,8 @@
+-- [1] table creation
+CREATE TABLE `scheduled_gift_items` (
+	`id` SERIAL,
+	`scheduled_id` BIGINT UNSIGNED NOT NULL,
+	`item_id` VARCHAR(255) NOT NULL,
+	`qty` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_scheduled_id` (`scheduled_id`)
+);
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- [1] table creation
+CREATE TABLE `scheduled_gifts` (
+	`id` SERIAL,
+	`client_id` BIGINT UNSIGNED NOT NULL,
+	`recipient_id` BIGINT UNSIGNED NOT NULL,
+	`message` VARCHAR(20) NOT NULL DEFAULT '',
+	`icon_id` VARCHAR(255) NOT NULL DEFAULT '',
+	`next_delivery` BIGINT UNSIGNED NOT NULL,
+	`repeat_interval` BIGINT UNSIGNED NOT NULL DEFAULT 0,
+	`remaining` INT UNSIGNED NOT NULL,
+	`created` BIGINT UNSIGNED NOT NULL,
+	INDEX `idx_client_id` (`client_id`)
+);
\ No newline at end of file
@@ -7,4 +7,15 @@ CREATE TABLE `trade_offers` (
 	`state` TINYINT UNSIGNED NOT NULL DEFAULT 0,
 	INDEX `idx_sender_id` (`sender_id`),
 	INDEX `idx_recipient_id` (`recipient_id`)
-);
\ No newline at end of file
+);
+
+-- [2] add revision and confirmation columns
+ALTER TABLE `trade_offers` ADD COLUMN `revision` INT UNSIGNED NOT NULL DEFAULT 1;
+ALTER TABLE `trade_offers` ADD COLUMN `sender_confirmed` INT UNSIGNED NOT NULL DEFAULT 0;
+ALTER TABLE `trade_offers` ADD COLUMN `recipient_confirmed` INT UNSIGNED NOT NULL DEFAULT 0;
+
+-- [3] add ttl and expires columns
+ALTER TABLE `trade_offers` ADD COLUMN `ttl` BIGINT UNSIGNED NOT NULL DEFAULT 604800000;
+ALTER TABLE `trade_offers` ADD COLUMN `expires` BIGINT UNSIGNED NOT NULL DEFAULT 0;
+UPDATE `trade_offers` SET `expires` = UNIX_TIMESTAMP() * 1000 + `ttl`;
+CREATE INDEX `idx_expires` ON `trade_offers` (`expires`);
\ No newline at end of file
@@ -1,11 +1,22 @@
 export type campaign_state = {
 	id: number;
+	slot_id: string;
 	campaign_id: string;
 	item_id: string;
 	item_amount: number;
 	item_current: number;
 	campaign_next: number;
 	complete: number;
+	stage: number;
+	started: number;
+	finished: number;
+	size_fac: number;
+	baseline_fac: number;
+	outcome: number;
+	progress: number;
+	deadline: number;
+	baseline: number;
+	milestone: number;
 };
 
 export type charity_items = {
@@ -52,6 +63,27 @@ export type gifts = {
 	client_id: number;
 	sender_id: number;
 	flags: number;
+	message: string;
+	icon_id: string;
+};
+
+export type scheduled_gifts = {
+	id: number;
+	client_id: number;
+	recipient_id: number;
+	message: string;
+	icon_id: string;
+	next_delivery: number;
+	repeat_interval: number;
+	remaining: number;
+	created: number;
+};
+
+export type scheduled_gift_items = {
+	id: number;
+	scheduled_id: number;
+	item_id: string;
+	qty: number;
 };
 
 export type resolved_trade_offers = {
@@ -59,6 +91,7 @@ export type resolved_trade_offers = {
 	client_id: number;
 	sender_id: number;
 	declined: number;
+	counter: number;
 };
 
 export type trade_items = {
@@ -75,6 +108,11 @@ export type trade_offers = {
 	recipient_id: number;
 	attending_id: number;
 	state: number;
+	revision: number;
+	sender_confirmed: number;
+	recipient_confirmed: number;
+	ttl: number;
+	expires: number;
 };
 
 export type campaign_contributions = {
@@ -82,6 +120,46 @@ export type campaign_contributions = {
 	client_id: number;
 	item_amount: number;
 	taken: number;
+	placement: number;
+	team_id: number;
+};
+
+export type campaign_milestones = {
+	id: number;
+	campaign_id: number;
+	client_id: number;
+	pct: number;
+	reward: number;
+	claimed: number;
+	timestamp: number;
+};
+
+export type campaign_teams = {
+	id: number;
+	owner_id: number;
+	name: string;
+	created: number;
+};
+
+export type campaign_team_members = {
+	client_id: number;
+	team_id: number;
+	joined: number;
+};
+
+export type campaign_stages = {
+	campaign_id: number;
+	stage: number;
+	item_id: string;
+	item_amount: number;
+	item_current: number;
+};
+
+export type campaign_stage_contributions = {
+	campaign_id: number;
+	client_id: number;
+	stage: number;
+	item_amount: number;
 };
 
 export type market_items = {
@@ -92,4 +170,45 @@ export type market_items = {
 	available: number;
 	price: number;
 	payout: number;
+	listed: number;
+};
+
+export type market_orders = {
+	id: number;
+	client_id: number;
+	item_id: string;
+	qty: number;
+	filled: number;
+	claimed: number;
+	price: number;
+	refund: number;
+};
+
+export type market_sales = {
+	id: number;
+	item_id: string;
+	qty: number;
+	price: number;
+	seller_id: number;
+	buyer_id: number;
+	timestamp: number;
+};
+
+export type market_tax = {
+	id: number;
+	client_id: number;
+	source: string;
+	amount: number;
+	timestamp: number;
+};
+
+export type escrow_ledger = {
+	id: number;
+	item_id: string;
+	qty: number;
+	debit_type: number;
+	debit_id: number;
+	credit_type: number;
+	credit_id: number;
+	timestamp: number;
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { ITEM_CATALOGUE_FILE, parse_item_catalogue } from './item_data';
+import type { ItemData } from './item_data';
+
+// rebuilds the item catalogue from the game data packages found in assets/data/ of a game install,
+// such as melvorDemo.json, melvorFull.json and the expansion packages.
+// usage: bun run generate_items.ts <data package> [<data package> ...]
+
+function get_sells_for(item: any): number {
+	// older packages store a plain GP value, newer packages store { currency, quantity }
+	if (typeof item.sellsFor === 'number')
+		return item.sellsFor;
+
+	return item.sellsFor?.quantity ?? 0;
+}
+
+const files = process.argv.slice(2);
+if (files.length === 0)
+	throw new Error('usage: bun run generate_items.ts <data package> [<data package> ...]');
+
+const items = [] as ItemData[];
+for (const file of files) {
+	const data_package = await Bun.file(file).json();
+	const namespace = data_package.namespace;
+
+	if (typeof namespace !== 'string' || !namespace.startsWith('melvor'))
+		throw new Error(file + ' is not a base game data package');
+
+	for (const item of data_package.data?.items ?? []) {
+		items.push({
+			id: namespace + ':' + item.id,
+			category: item.category ?? item.type ?? 'Misc',
+			sells_for: Math.floor(get_sells_for(item))
+		});
+	}
+}
+
+// validated with the same rules the server applies when loading the catalogue
+parse_item_catalogue(items);
+
+const lines = items.map(item => '\t{ "id": ' + JSON.stringify(item.id) + ', "category": ' + JSON.stringify(item.category) + ', "sells_for": ' + item.sells_for + ' }');
+await Bun.write(ITEM_CATALOGUE_FILE, '[\n' + lines.join(',\n') + '\n]');
+
+console.log('wrote %d items from %d data packages to %s', items.length, files.length, ITEM_CATALOGUE_FILE);
@@ -1,10 +1,13 @@
 // #region IMPORTS
 import { caution, serve, validate_req_json, HTTP_STATUS_CODE } from 'spooder';
 import { format } from 'node:util';
-import { db_get_single, db_execute, db_insert, db_exists, db_get_all } from './db';
+import { db_get_single, db_execute, db_insert, db_exists, db_get_all, db_count, db_transaction, db_tx_execute, db_tx_get_all, db_tx_get_single, db_tx_insert } from './db';
+import type { PoolConnection } from './db';
 import type { JsonPrimitive, JsonArray, JsonObject } from 'spooder';
-import { AVAILABLE_CAMPAIGNS } from './campaign_data';
-import type { CampaignData } from './campaign_data';
+import { CAMPAIGN_CONFIG_FILE, CAMPAIGN_REWARD_MOD, CAMPAIGN_PET_REWARD_BONUS, CAMPAIGN_PET_RANKING, CAMPAIGN_TOP_REWARD_TIERS, CAMPAIGN_MILESTONES, CAMPAIGN_MILESTONE_REWARD_FAC, parse_campaign_config, is_campaign_window_open } from './campaign_data';
+import type { CampaignConfig, CampaignData, CampaignItem, CampaignSlot } from './campaign_data';
+import { ITEM_CATALOGUE_FILE, parse_item_catalogue } from './item_data';
+import type { ItemData } from './item_data';
 import type * as db_row from './db/types/db_types';
 // #endregion
 
@@ -25,7 +28,37 @@ type CachedSession = { client_id: number, last_access: number };
 type ActiveTrade = {
 	trade_id: number;
 	state: number;
-	attending_id: number;
+	sender_id: number;
+	attending_id: number; // the player whose turn it is
+	revision: number;
+	sender_confirmed: number; // revision last confirmed by the sender
+	recipient_confirmed: number; // revision last confirmed by the recipient
+	expires: number;
+}
+
+type CampaignStage = {
+	item_id: string;
+	item_total: number;
+	item_current: number;
+}
+
+type ActiveCampaign = {
+	slot_id: string;
+	id: number; // campaign_state id, 0 while waiting to restart
+	campaign_id: string;
+	stage: number;
+	stages: CampaignStage[];
+	pct: number; // progress of the current stage
+	next_timestamp: number;
+	started: number;
+	milestone: number; // number of CAMPAIGN_MILESTONES reached
+	deadline: number; // 0 for campaigns without a deadline
+	baseline_fac: number; // share of the campaign baseline advancement fills over CAMPAIGN_TARGET_DURATION
+}
+
+type CampaignStageContribution = {
+	item_id: string;
+	item_amount: number;
 }
 
 type FriendRequest = {
@@ -33,8 +66,27 @@ type FriendRequest = {
 	request_id: number;
 }
 
+enum CampaignOutcome {
+	Active = 0,
+	Completed = 1,
+	Failed = 2
+}
+
 enum GiftFlags {
-	Returned = 1 << 0
+	Returned = 1 << 0,
+	MarketExpired = 1 << 1
+}
+
+// accounts that items move between in the escrow ledger, the id column is the client, gift, trade, lot or order id
+enum EscrowAccount {
+	Client = 0,
+	Gift = 1,
+	TradeSender = 2,
+	TradeRecipient = 3,
+	MarketLot = 4,
+	MarketOrder = 5,
+	System = 6, // opening balances and market proceeds
+	ScheduledGift = 7
 }
 
 type TransferItem = {
@@ -42,6 +94,11 @@ type TransferItem = {
 	qty: number;
 }
 
+type GiftWrapping = {
+	message: string;
+	icon_id: string;
+}
+
 type ClientDisplayInfo = {
 	display_name: string;
 	icon_id: string;
@@ -52,6 +109,15 @@ type ClientDisplayInfo = {
 const DEFAULT_USER_ICON_ID = 'melvorF:Fire_Acolyte_Wizard_Hat';
 const DEFAULT_USER_DISPLAY_NAME = 'Unknown Idler';
 const MAX_TRANSFER_ITEM_COUNT = 32;
+const MAX_PENDING_GIFTS_PER_RECIPIENT = 5; // unresolved gifts a client can have waiting with a single friend
+
+const GIFT_SCHEDULE_MAX_ACTIVE = 10; // scheduled gifts a client can have at once
+const GIFT_SCHEDULE_MAX_DELAY = 1000 * 60 * 60 * 24 * 30; // 30 days
+const GIFT_SCHEDULE_MIN_INTERVAL = 1000 * 60 * 60; // 1 hour
+const GIFT_SCHEDULE_MAX_INTERVAL = 1000 * 60 * 60 * 24 * 30; // 30 days
+const GIFT_SCHEDULE_MAX_DELIVERIES = 30;
+const GIFT_SCHEDULE_RETRY_DELAY = 1000 * 60 * 60; // 1 hour, used when the recipient has too many pending gifts
+const GIFT_SCHEDULE_CHECK_MAX = 1000 * 60 * 60 * 24; // 24 hours, keeps delivery timers within setTimeout limits
 
 // maximum cache life is X * 2, minimum is X.
 const CACHE_SESSION_LIFETIME = 1000 * 60 * 60; // 1 hour
@@ -63,41 +129,85 @@ const CACHE_RESET_INTERVAL = 1000 * 60 * 60 * 24; // 24 hours
 const CHARITY_TIMEOUT = 1000 * 60 * 60 * 24; // 24 hours
 
 const CAMPAIGN_MAX_SOLO_CONTRIB_FAC = 0.25;
-const CAMPAIGN_ITEM_MIN = 10;
-const CAMPAIGN_ITEM_MAX = 50;
-const CAMPAIGN_ITEM_SCALE = 1000000;
-
-const CAMPAIGN_BASELINE_ADV_MIN = 0.01;
-const CAMPAIGN_BASELINE_ADV_MAX = 0.02;
+const CAMPAIGN_MAX_TEAM_CONTRIB_FAC = 0.5; // shared by every member of a team
+const CAMPAIGN_TEAM_MIN_MEMBERS = 2; // smaller teams contribute under the solo cap
+const CAMPAIGN_TEAM_MAX_MEMBERS = 5;
+const CAMPAIGN_LEADERBOARD_SIZE = 10;
+const CAMPAIGN_HISTORY_PER_PAGE = 15;
+const CAMPAIGN_HISTORY_PER_PAGE_MAX = 50;
+const CAMPAIGN_FALLBACK_RESTART_TIMER = 1000 * 60 * 60 * 12; // 12 hours, for campaigns removed from the config
+const CAMPAIGN_DEADLINE_CHECK_MAX = 1000 * 60 * 60 * 24; // 24 hours, keeps deadline timers within setTimeout limits
+
+const CAMPAIGN_BASELINE_ADV_JITTER = 0.25; // baseline advancement varies by this fraction either way
 const CAMPAIGN_BASELINE_ADV_RATE = 1000 * 60 * 60; // 1 hour
 
-const CAMPAIGN_RESTART_TIMER = 1000 * 60 * 60 * 12; // 12 hours
+// campaigns are sized from recent participation to finish in roughly this long
+const CAMPAIGN_TARGET_DURATION = 1000 * 60 * 60 * 24 * 3; // 3 days
+const CAMPAIGN_PARTICIPATION_SAMPLE = 5; // recent campaigns considered
+const CAMPAIGN_SIZE_FAC_MIN = 0.25;
+const CAMPAIGN_SIZE_FAC_MAX = 4;
+const CAMPAIGN_BASELINE_SHARE = 0.25; // minimum share of a campaign filled by baseline advancement
+
+// trades expire if left untouched for this long, the offering player can pick a ttl within the limits
+const TRADE_TTL_DEFAULT = 1000 * 60 * 60 * 24 * 7; // 7 days
+const TRADE_TTL_MIN = 1000 * 60 * 60; // 1 hour
+const TRADE_TTL_MAX = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+// time between sweeps for expired trade offers
+const TRADE_SWEEP_INTERVAL = 1000 * 60 * 15; // 15 minutes
 
 const MARKET_ITEMS_PER_PAGE = 30;
+
+// tax taken from market payouts, and the fee for listing items (fraction of listing value)
+const MARKET_SALES_TAX = 0.02;
+const MARKET_LISTING_FEE = 0.005;
+
+// fraction of collected market tax donated to The Charitree as GP
+const MARKET_TAX_CHARITY_FAC = 0;
+
+// time before unsold market listings are returned to the seller
+const MARKET_LISTING_LIFETIME = 1000 * 60 * 60 * 24 * 14; // 14 days
+
+// time between sweeps for expired market listings
+const MARKET_SWEEP_INTERVAL = 1000 * 60 * 60; // 1 hour
+const MARKET_ITEMS_PER_PAGE_MAX = 100;
+const MARKET_SEARCH_MAX_ITEM_IDS = 50;
+const MARKET_BULK_MAX_LOTS = 50;
+
+// maps search sort keys to their column, never splice user input into queries directly
+const MARKET_SORT_COLUMNS: Record<string, string> = {
+	price: '`price`',
+	qty: '`available`',
+	age: '`id`'
+};
+
+const MARKET_HISTORY_DEFAULT_DAYS = 7;
+const MARKET_HISTORY_MAX_DAYS = 30;
+const MARKET_HISTORY_BUCKET = 1000 * 60 * 60 * 24; // 24 hours
 // #endregion
 
 // #region GLOBALS
 const server = serve(Number(process.env.SERVER_PORT));
 
 const client_session_cache = new Map<string, CachedSession>();
+const item_catalogue = new Map<string, ItemData>();
 
 const friend_request_cache = new Map<number, FriendRequest[]>();
 const gift_cache = new Map<number, number[]>();
 const display_name_cache = new Map<number, string>();
 const display_icon_cache = new Map<number, string>();
 const market_completed_cached = new Map<number, number[]>();
+const market_orders_filled_cached = new Map<number, number[]>();
+const campaign_milestones_cached = new Map<number, number[]>();
 
 const trade_cache = new Map<number, ActiveTrade>(); // trade_id to ActiveTrade
 const trade_player_cache = new Map<number, number[]>(); // client_id to trade_id[]
 const resolved_trade_cache = new Map<number, number[]>(); // client_id to trade_id[]
 
-let campaign_active_id: number = 0;
-let campaign_active_campaign_id: string = '';
-let campaign_active_item: string = '';
-let campaign_item_total: number = 0;
-let campaign_item_current: number = 0;
-let campaign_current_pct: number = 0;
-let campaign_next_active_timestamp: number = 0;
+const scheduled_gift_timers = new Map<number, ReturnType<typeof setTimeout>>(); // scheduled gift id to delivery timer
+
+const active_campaigns = new Map<string, ActiveCampaign>(); // slot_id to ActiveCampaign
+let campaign_config: CampaignConfig;
 // #endregion
 
 // #region COMMON FN
@@ -122,6 +232,15 @@ function remove_player_cache_entry(cache: Map<number, number[]>, client_id: numb
 		cache.set(client_id, cached_entries.filter(e => e !== item_id));
 }
 
+function to_safe_int(value: unknown): number | null {
+	// | 0 truncates to 32 bits, which gp amounts, durations and large stacks can exceed
+	if (typeof value !== 'number')
+		return null;
+
+	const int = Math.floor(value);
+	return Number.isSafeInteger(int) ? int : null;
+}
+
 function validate_item_array(items: unknown, allow_modded = true) {
 	if (!Array.isArray(items))
 		return false;
@@ -134,11 +253,10 @@ function validate_item_array(items: unknown, allow_modded = true) {
 		if (typeof item.id !== 'string' || typeof item.qty !== 'number')
 			return false;
 
+		item.qty = to_safe_int(item.qty) ?? 0;
 		if (item.qty <= 0)
 			return false;
 
-		item.qty = item.qty | 0; // truncate fp
-
 		if (!allow_modded && !item.id.startsWith('melvor'))
 			return false;
 	}
@@ -146,9 +264,51 @@ function validate_item_array(items: unknown, allow_modded = true) {
 	return true;
 }
 
+function is_modded_item(item_id: string): boolean {
+	return !item_id.startsWith('melvor');
+}
+
+async function load_item_catalogue() {
+	const data = await Bun.file(ITEM_CATALOGUE_FILE).json();
+
+	item_catalogue.clear();
+	for (const item of parse_item_catalogue(data))
+		item_catalogue.set(item.id, item);
+
+	log('item', 'loaded {%d} items into the item catalogue', item_catalogue.size);
+}
+
+function is_vanilla_icon(icon_id: string): boolean {
+	return icon_id.startsWith('melvorF:') || icon_id.startsWith('melvorD:');
+}
+
+function is_known_item(item_id: string, allow_modded = true): boolean {
+	if (is_modded_item(item_id))
+		return allow_modded;
+
+	return item_catalogue.has(item_id);
+}
+
+function validate_item_catalogue(items: TransferItem[], allow_modded = true): boolean {
+	return items.every(item => is_known_item(item.id, allow_modded));
+}
+
 function array_random(arr: Array<unknown>) {
 	return arr[Math.floor(Math.random() * arr.length)];
 }
+
+function weighted_random<T extends { weight: number }>(arr: T[]): T {
+	const total = arr.reduce((sum, entry) => sum + entry.weight, 0);
+	let roll = Math.random() * total;
+
+	for (const entry of arr) {
+		roll -= entry.weight;
+		if (roll < 0)
+			return entry;
+	}
+
+	return arr[arr.length - 1];
+}
 // #endregion
 
 // #region MAINTENANCE
@@ -158,6 +318,8 @@ function sweep_data_caches() {
 	display_name_cache.clear();
 	display_icon_cache.clear();
 	market_completed_cached.clear();
+	market_orders_filled_cached.clear();
+	campaign_milestones_cached.clear();
 
 	trade_cache.clear();
 	trade_player_cache.clear();
@@ -176,752 +338,2669 @@ function sweep_client_session_cache() {
 	setTimeout(sweep_client_session_cache, CACHE_SESSION_LIFETIME);
 }
 
-setTimeout(sweep_client_session_cache, CACHE_SESSION_LIFETIME);
-setTimeout(sweep_data_caches, CACHE_RESET_INTERVAL);
-// #endregion
+async function sweep_market_listings() {
+	const expired = await db_get_all('SELECT `id` FROM `market_items` WHERE `listed` < ?', [Date.now() - MARKET_LISTING_LIFETIME]) as db_row.market_items[];
+	for (const lot of expired)
+		await market_expire_lot(lot.id);
 
-// #region MARKET
-async function market_list_item(client_id: number, item_id: string, item_qty: number, item_sell_price: number) {
-	const existing = await db_get_single('SELECT `id` FROM `market_items` WHERE `client_id` = ? AND `item_id` = ? AND `price` = ?', [client_id, item_id, item_sell_price]) as db_row.market_items;
-	if (existing !== null) {
-		await db_execute('UPDATE `market_items` SET `qty` = `qty` + ?, `available` = `available` + ? WHERE `id` = ?', [item_qty, item_qty, existing.id]);
-		remove_player_cache_entry(market_completed_cached, client_id, existing.id);
-	} else {
-		await db_execute('INSERT INTO `market_items` (`client_id`, `item_id`, `qty`, `price`, `available`) VALUES(?, ?, ?, ?, ?)', [client_id, item_id, item_qty, item_sell_price, item_qty]);	
-	}
+	if (expired.length > 0)
+		log('market', 'expired {%d} market listings', expired.length);
+
+	setTimeout(sweep_market_listings, MARKET_SWEEP_INTERVAL);
 }
 
-async function get_market_completed(client_id: number) {
-	const cached = market_completed_cached.get(client_id);
-	if (cached)
-		return cached;
+async function sweep_trade_offers() {
+	const expired = await db_get_all('SELECT * FROM `trade_offers` WHERE `expires` < ?', [Date.now()]) as db_row.trade_offers[];
+	for (const trade of expired)
+		await cancel_trade_offer(trade, trade.attending_id, true);
 
-	const results = await db_get_all('SELECT `id` FROM `market_items` WHERE `client_id` = ? AND `available` = 0', [client_id]) as db_row.market_items[];
-	const completed = results.map(row => row.id);
+	if (expired.length > 0)
+		log('trade', 'expired {%d} trade offers', expired.length);
 
-	market_completed_cached.set(client_id, completed);
-	return completed;
+	setTimeout(sweep_trade_offers, TRADE_SWEEP_INTERVAL);
 }
+
+setTimeout(sweep_client_session_cache, CACHE_SESSION_LIFETIME);
+setTimeout(sweep_data_caches, CACHE_RESET_INTERVAL);
+setTimeout(sweep_market_listings, MARKET_SWEEP_INTERVAL);
+setTimeout(sweep_trade_offers, TRADE_SWEEP_INTERVAL);
 // #endregion
 
-// #region CAMPAIGN
-async function start_new_campaign() {
-	const campaign_data = array_random(AVAILABLE_CAMPAIGNS) as CampaignData;
+// #region ESCROW
+async function escrow_transfer(conn: PoolConnection, item_id: string, qty: number, debit_type: EscrowAccount, debit_id: number, credit_type: EscrowAccount, credit_id: number) {
+	if (qty <= 0)
+		return;
 
-	campaign_active_campaign_id = campaign_data.id;
-	campaign_active_item = array_random(campaign_data.items) as string;
-	campaign_next_active_timestamp = 0;
+	await db_tx_execute(conn,
+		'INSERT INTO `escrow_ledger` (`item_id`, `qty`, `debit_type`, `debit_id`, `credit_type`, `credit_id`, `timestamp`) VALUES(?, ?, ?, ?, ?, ?, ?)',
+		[item_id, qty, debit_type, debit_id, credit_type, credit_id, Date.now()]
+	);
+}
 
-	campaign_item_total = Math.floor(Math.random() * (CAMPAIGN_ITEM_MAX - CAMPAIGN_ITEM_MIN) + CAMPAIGN_ITEM_MIN) * CAMPAIGN_ITEM_SCALE;
-	campaign_item_current = 0;
-	campaign_current_pct = 0;
+function get_trade_escrow_account(counter: number) {
+	return counter === 0 ? EscrowAccount.TradeSender : EscrowAccount.TradeRecipient;
+}
 
-	log('campaign', 'started new campaign {%s} {%s} {%s}', campaign_active_campaign_id, campaign_active_item, campaign_item_total);
+async function audit_escrow_ledger() {
+	// every account other than clients and the system account holds items, so the ledger
+	// balance of each one must match what the gift, trade and market tables currently hold
+	const balances = await db_get_all(
+		'SELECT `account`, `id`, `item_id`, SUM(`qty`) AS `balance` FROM (' +
+		'SELECT `credit_type` AS `account`, `credit_id` AS `id`, `item_id`, `qty` FROM `escrow_ledger` UNION ALL ' +
+		'SELECT `debit_type`, `debit_id`, `item_id`, -CAST(`qty` AS SIGNED) FROM `escrow_ledger`' +
+		') AS `entries` WHERE `account` NOT IN (?, ?) GROUP BY `account`, `id`, `item_id`',
+		[EscrowAccount.Client, EscrowAccount.System]
+	);
 
-	campaign_active_id = await db_insert(
-		'INSERT INTO `campaign_state` (campaign_id, item_id, item_amount) VALUES(?, ?, ?)',
-		[campaign_active_campaign_id, campaign_active_item, campaign_item_total]
+	const holdings = await db_get_all(
+		'SELECT ? AS `account`, `gift_id` AS `id`, `item_id`, SUM(`qty`) AS `held` FROM `gift_items` GROUP BY `gift_id`, `item_id` UNION ALL ' +
+		'SELECT ? + `counter`, `trade_id`, `item_id`, SUM(`qty`) FROM `trade_items` GROUP BY `trade_id`, `counter`, `item_id` UNION ALL ' +
+		'SELECT ?, `id`, `item_id`, `available` FROM `market_items` WHERE `available` > 0 UNION ALL ' +
+		'SELECT ?, `id`, `item_id`, `filled` - `claimed` FROM `market_orders` WHERE `filled` > `claimed` UNION ALL ' +
+		'SELECT ?, s.`id`, i.`item_id`, SUM(i.`qty` * s.`remaining`) FROM `scheduled_gift_items` AS i JOIN `scheduled_gifts` AS s ON s.`id` = i.`scheduled_id` GROUP BY s.`id`, i.`item_id`',
+		[EscrowAccount.Gift, EscrowAccount.TradeSender, EscrowAccount.MarketLot, EscrowAccount.MarketOrder, EscrowAccount.ScheduledGift]
 	);
-}
 
-async function update_campaign_progress() {
-	campaign_current_pct = campaign_item_current / campaign_item_total;
+	const accounts = new Map<string, { account: number, id: number, item_id: string, ledger: number, held: number }>();
+	const get_account = (account: number, id: number, item_id: string) => {
+		const key = account + ':' + id + ':' + item_id;
+		let entry = accounts.get(key);
+		if (entry === undefined) {
+			entry = { account, id, item_id, ledger: 0, held: 0 };
+			accounts.set(key, entry);
+		}
 
-	if (campaign_item_current >= campaign_item_total)
-		return finalize_campaign();
-}
+		return entry;
+	};
+
+	// SUM() results come back as decimal strings
+	for (const row of balances)
+		get_account(Number(row.account), Number(row.id), row.item_id).ledger += Number(row.balance);
 
-async function finalize_campaign() {
-	campaign_active_id = 0;
-	campaign_next_active_timestamp = Date.now() + CAMPAIGN_RESTART_TIMER;
+	for (const row of holdings)
+		get_account(Number(row.account), Number(row.id), row.item_id).held += Number(row.held);
 
-	await db_execute('UPDATE `campaign_state` SET `complete` = 1, `campaign_next` = ?', [campaign_next_active_timestamp]);
+	const discrepancies = [...accounts.values()].filter(entry => entry.ledger !== entry.held);
+	const total_held = [...accounts.values()].reduce((total, entry) => total + entry.held, 0);
 
-	schedule_campaign_restart();
+	return { balanced: discrepancies.length === 0, accounts: accounts.size, total_held, discrepancies };
 }
+// #endregion
 
-async function load_campaign_state() {
-	const state = await db_get_single('SELECT * FROM `campaign_state` ORDER BY `id` DESC LIMIT 1') as db_row.campaign_state;
-	if (state === null)
-		return start_new_campaign();
+// #region MARKET
+async function market_list_item(client_id: number, item_id: string, item_qty: number, item_sell_price: number, listing_fee: number) {
+	const listing = await db_transaction(async conn => {
+		await market_collect_tax(conn, client_id, 'listing', listing_fee);
+
+		const existing = await db_tx_get_single(conn, 'SELECT `id` FROM `market_items` WHERE `client_id` = ? AND `item_id` = ? AND `price` = ? LIMIT 1 FOR UPDATE', [client_id, item_id, item_sell_price]) as db_row.market_items;
+		let lot_id = existing?.id ?? -1;
+
+		if (existing !== null) {
+			// merging stock into an existing listing renews it
+			await db_tx_execute(conn, 'UPDATE `market_items` SET `qty` = `qty` + ?, `available` = `available` + ?, `listed` = ? WHERE `id` = ?', [item_qty, item_qty, Date.now(), existing.id]);
+		} else {
+			lot_id = await db_tx_insert(conn, 'INSERT INTO `market_items` (`client_id`, `item_id`, `qty`, `price`, `available`, `listed`) VALUES(?, ?, ?, ?, ?, ?)', [client_id, item_id, item_qty, item_sell_price, item_qty, Date.now()]);
+		}
 
-	if (state.complete === 1) {
-		campaign_next_active_timestamp = state.campaign_next;
-		return schedule_campaign_restart();
-	}
+		await escrow_transfer(conn, item_id, item_qty, EscrowAccount.Client, client_id, EscrowAccount.MarketLot, lot_id);
 
-	campaign_active_id = state.id;
-	campaign_active_campaign_id = state.campaign_id;
-	campaign_active_item = state.item_id;
-	campaign_item_total = state.item_amount;
-	campaign_item_current = state.item_current;
+		return { lot_id, merged: existing !== null };
+	});
 
-	update_campaign_progress();
+	if (listing === null)
+		return null;
 
-	log('campaign', 'loaded campaign state: {%s} {%s} {%s}/{%s}', campaign_active_campaign_id, campaign_active_item, campaign_item_current, campaign_item_total);
-}
+	const { lot_id, merged } = listing;
+	if (merged)
+		remove_player_cache_entry(market_completed_cached, client_id, lot_id);
 
-async function schedule_campaign_restart() {
-	const current_time = Date.now();
-	if (current_time >= campaign_next_active_timestamp)
-		return start_new_campaign();
+	const lot = await db_get_single('SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1', [lot_id]) as db_row.market_items;
+	if (lot !== null && lot.available > 0)
+		await market_fill_lot(lot);
 
-	setTimeout(start_new_campaign, campaign_next_active_timestamp - current_time);
-	log('campaign', 'scheduled campaign restart at {%s}', new Date(campaign_next_active_timestamp).toUTCString());
+	return lot_id;
 }
 
-function get_campaign_progress() {
-	return {
-		active: campaign_active_id > 0,
-		pct: campaign_current_pct
-	};
+async function market_record_sale(conn: PoolConnection, lot: db_row.market_items, qty: number, buyer_id: number) {
+	await db_tx_execute(conn,
+		'INSERT INTO `market_sales` (`item_id`, `qty`, `price`, `seller_id`, `buyer_id`, `timestamp`) VALUES(?, ?, ?, ?, ?, ?)',
+		[lot.item_id, qty, lot.price, lot.client_id, buyer_id, Date.now()]
+	);
 }
 
-async function add_campaign_progress(item_qty: number) {
-	campaign_item_current = Math.min(campaign_item_total, campaign_item_current + item_qty);
-	await db_execute('UPDATE `campaign_state` SET `item_current` = ? WHERE `id` = ?', [campaign_item_current, campaign_active_id]);
+async function get_market_history(item_id: string, days: number) {
+	const window_start = Date.now() - (days * MARKET_HISTORY_BUCKET);
+	const sales = await db_get_all('SELECT `qty`, `price`, `timestamp` FROM `market_sales` WHERE `item_id` = ? AND `timestamp` >= ? ORDER BY `timestamp` ASC', [item_id, window_start]) as db_row.market_sales[];
+	const last_sale = await db_get_single('SELECT `price`, `timestamp` FROM `market_sales` WHERE `item_id` = ? ORDER BY `timestamp` DESC LIMIT 1', [item_id]) as db_row.market_sales;
 
-	update_campaign_progress();
-}
+	let volume = 0;
+	let value = 0;
+	let min_price = 0;
+	let max_price = 0;
 
-async function get_campaign_history(client_id: number) {
-	return await db_get_all('SELECT a.`item_amount`, a.`taken`, b.`id`, b.`campaign_id`, b.`item_id` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND b.`complete` = 1 ORDER BY a.`campaign_id` DESC LIMIT 15', [client_id]);
-}
+	const buckets = [];
+	let bucket = null;
 
-async function get_campaign_rankings(client_id: number) {
-	const rankings_raw = await db_get_all('SELECT b.`campaign_id`, COUNT(*) AS `completed` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND b.`complete` = 1 GROUP BY b.`campaign_id`', [client_id]);
-	const rankings = {} as Record<string, number>;
-	for (const row of rankings_raw)
-		rankings[row.campaign_id] = row.completed;
+	for (const sale of sales) {
+		volume += sale.qty;
+		value += sale.qty * sale.price;
 
-	return rankings;
-}
+		min_price = min_price === 0 ? sale.price : Math.min(min_price, sale.price);
+		max_price = Math.max(max_price, sale.price);
 
-function tick_campaign_baseline_advancement() {
-	if (campaign_active_id > 0) {
-		const adv_pct = Math.random() * (CAMPAIGN_BASELINE_ADV_MAX - CAMPAIGN_BASELINE_ADV_MIN) + CAMPAIGN_BASELINE_ADV_MIN;
-		const adv_value = Math.floor(campaign_item_total * adv_pct);
+		const bucket_start = Math.floor(sale.timestamp / MARKET_HISTORY_BUCKET) * MARKET_HISTORY_BUCKET;
+		if (bucket === null || bucket.timestamp !== bucket_start) {
+			bucket = { timestamp: bucket_start, open: sale.price, high: sale.price, low: sale.price, close: sale.price, volume: 0 };
+			buckets.push(bucket);
+		}
 
-		log('campaign', 'baseline advancement +{%d}', adv_value);
-		add_campaign_progress(adv_value);
+		bucket.high = Math.max(bucket.high, sale.price);
+		bucket.low = Math.min(bucket.low, sale.price);
+		bucket.close = sale.price;
+		bucket.volume += sale.qty;
 	}
 
-	schedule_campaign_baseline_advancement();
+	return {
+		last_price: last_sale?.price ?? 0,
+		last_sale: last_sale?.timestamp ?? 0,
+		vwap: volume > 0 ? value / volume : 0,
+		min_price,
+		max_price,
+		volume,
+		buckets
+	};
 }
 
-function schedule_campaign_baseline_advancement() {
-	setTimeout(tick_campaign_baseline_advancement, CAMPAIGN_BASELINE_ADV_RATE);
+async function get_market_seller_stats(seller_id: number) {
+	const sales = await db_get_single('SELECT SUM(`qty`) AS `items_sold`, SUM(`qty` * `price`) AS `gp_earned`, MAX(`timestamp`) AS `last_sale` FROM `market_sales` WHERE `seller_id` = ?', [seller_id]);
+	const active_lots = await db_count('SELECT COUNT(*) AS `count` FROM `market_items` WHERE `client_id` = ? AND `available` > 0', [seller_id]);
+
+	return {
+		items_sold: Number(sales?.items_sold ?? 0),
+		gp_earned: Number(sales?.gp_earned ?? 0),
+		last_sale: Number(sales?.last_sale ?? 0),
+		active_lots
+	};
 }
 
-load_campaign_state();
+async function market_transfer(lot_id: number, order_id: number) {
+	const transfer = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		const order = await db_tx_get_single(conn, 'SELECT * FROM `market_orders` WHERE `id` = ? LIMIT 1 FOR UPDATE', [order_id]) as db_row.market_orders;
 
-schedule_campaign_baseline_advancement();
-// #endregion
+		if (lot === null || order === null)
+			return null;
 
-// #region FRIEND CODE
-async function is_friend_code_taken(friend_code: string): Promise<boolean> {
-	return db_exists('SELECT 1 FROM `clients` WHERE `friend_code` = ? LIMIT 1', [friend_code]);
-}
+		const qty = Math.min(lot.available, order.qty - order.filled);
+		if (qty <= 0)
+			return null;
 
-function is_valid_friend_code(friend_code: string): boolean {
-	return /^[0-9]{3}-[0-9]{3}-[0-9]{3}$/.test(friend_code);
-}
+		// trades always execute at the lot price, the difference is refunded to the buyer
+		const refund = (order.price - lot.price) * qty;
 
-async function generate_friend_code(): Promise<string> {
-	const chunk = () => Math.floor(Math.random() * 900) + 100;
-	const code = () => chunk() + '-' + chunk() + '-' + chunk();
+		await db_tx_execute(conn, 'UPDATE `market_items` SET `available` = `available` - ? WHERE `id` = ? LIMIT 1', [qty, lot.id]);
+		await db_tx_execute(conn, 'UPDATE `market_orders` SET `filled` = `filled` + ?, `refund` = `refund` + ? WHERE `id` = ? LIMIT 1', [qty, refund, order.id]);
+		await escrow_transfer(conn, lot.item_id, qty, EscrowAccount.MarketLot, lot.id, EscrowAccount.MarketOrder, order.id);
+		await market_record_sale(conn, lot, qty, order.client_id);
 
-	let generated_code = code();
-	while (await is_friend_code_taken(generated_code))
-		generated_code = code();
+		return { lot, order, qty };
+	});
 
-	return generated_code;
-}
+	if (transfer === null)
+		return 0;
 
-async function get_user_id_from_friend_code(friend_code: string): Promise<number> {
-	const user_row = await db_get_single('SELECT `id` FROM `clients` WHERE `friend_code` = ?', [friend_code]) as db_row.clients;
-	return user_row?.id ?? -1;
-}
-// #endregion
+	const { lot, order, qty } = transfer;
+	if (lot.available - qty <= 0)
+		market_completed_cached.get(lot.client_id)?.push(lot.id);
 
-// #region DISPLAY NAME FN
-function validate_display_name(display_name: unknown): string {
-	if (typeof display_name === 'string') {
-		const trimmed = display_name.trim();
-		if (trimmed.length > 0 && trimmed.length <= 20)
-			return trimmed;
-	}
-	return DEFAULT_USER_DISPLAY_NAME;
+	const cached_filled = market_orders_filled_cached.get(order.client_id);
+	if (cached_filled && !cached_filled.includes(order.id))
+		cached_filled.push(order.id);
+
+	return qty;
 }
 
-async function get_client_display(client_id: number): Promise<ClientDisplayInfo> {
-	const result = { display_name: DEFAULT_USER_DISPLAY_NAME, icon_id: DEFAULT_USER_ICON_ID };
+async function market_fill_order(order: db_row.market_orders) {
+	const lots = await db_get_all(
+		'SELECT `id` FROM `market_items` WHERE `item_id` = ? AND `price` <= ? AND `available` > 0 AND `client_id` != ? ORDER BY `price` ASC, `id` ASC',
+		[order.item_id, order.price, order.client_id]
+	) as db_row.market_items[];
 
-	const cached_display_name = display_name_cache.get(client_id);
-	if (cached_display_name !== undefined)
-		result.display_name = cached_display_name;
+	let remaining = order.qty - order.filled;
+	for (const lot of lots) {
+		if (remaining <= 0)
+			break;
 
-	const cached_display_icon = display_icon_cache.get(client_id);
-	if (cached_display_icon !== undefined)
-		result.icon_id = cached_display_icon;
+		remaining -= await market_transfer(lot.id, order.id);
+	}
+}
 
-	if (cached_display_name === undefined || cached_display_icon === undefined) {
-		const client = await db_get_single('SELECT `display_name`, `icon_id` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
+async function market_fill_lot(lot: db_row.market_items) {
+	const orders = await db_get_all(
+		'SELECT `id` FROM `market_orders` WHERE `item_id` = ? AND `price` >= ? AND `filled` < `qty` AND `client_id` != ? ORDER BY `price` DESC, `id` ASC',
+		[lot.item_id, lot.price, lot.client_id]
+	) as db_row.market_orders[];
 
-		if (client !== null) {
-			display_name_cache.set(client_id, client.display_name);
-			display_icon_cache.set(client_id, client.icon_id);
+	let remaining = lot.available;
+	for (const order of orders) {
+		if (remaining <= 0)
+			break;
 
-			result.display_name = client.display_name;
-			result.icon_id = client.icon_id;
-		}
+		remaining -= await market_transfer(lot.id, order.id);
 	}
-
-	return result;
 }
 
-async function get_client_display_icon(client_id: number): Promise<string> {
-	const cached = display_icon_cache.get(client_id);
-	if (cached !== undefined)
+async function get_market_orders_filled(client_id: number) {
+	const cached = market_orders_filled_cached.get(client_id);
+	if (cached)
 		return cached;
 
-	const client = await db_get_single('SELECT `icon_id` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
-	if (client !== null) {
-		display_icon_cache.set(client_id, client.icon_id);
-		return client.icon_id;
-	}
+	const results = await db_get_all('SELECT `id` FROM `market_orders` WHERE `client_id` = ? AND `filled` > `claimed`', [client_id]) as db_row.market_orders[];
+	const filled = results.map(row => row.id);
 
-	return DEFAULT_USER_ICON_ID;
+	market_orders_filled_cached.set(client_id, filled);
+	return filled;
 }
 
-async function get_client_display_name(client_id: number): Promise<string> {
-	const cached = display_name_cache.get(client_id);
-	if (cached !== undefined)
-		return cached;
-
-	const client = await db_get_single('SELECT `display_name` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
-	if (client !== null) {
-		display_name_cache.set(client_id, client.display_name);
-		return client.display_name;
-	}
+function get_market_tax(amount: number) {
+	return Math.floor(amount * MARKET_SALES_TAX);
+}
 
-	return DEFAULT_USER_DISPLAY_NAME;
+function get_market_listing_fee(item_qty: number, item_price: number) {
+	return Math.ceil(item_qty * item_price * MARKET_LISTING_FEE);
 }
-// #endregion
 
-// #region FRIEND REQUESTS
-async function get_friend_requests(client_id: number): Promise<FriendRequest[]> {
-	const cached_entries = friend_request_cache.get(client_id);
-	if (cached_entries)
-		return cached_entries;
+async function market_collect_tax(conn: PoolConnection, client_id: number, source: string, amount: number) {
+	if (amount <= 0)
+		return;
 
-	const result = await db_get_all('SELECT `request_id`, `friend_id` FROM `friend_requests` WHERE `client_id` = ?', [client_id]) as db_row.friend_requests[];
-	const requests = [];
+	await db_tx_execute(conn, 'INSERT INTO `market_tax` (`client_id`, `source`, `amount`, `timestamp`) VALUES(?, ?, ?, ?)', [client_id, source, amount, Date.now()]);
 
-	for (const row of result) {
-		requests.push({
-			friend: await get_client_display(row?.friend_id as number),
-			request_id: row?.request_id ?? -1
-		});
-	}
+	const charity_amount = Math.floor(amount * MARKET_TAX_CHARITY_FAC);
+	if (charity_amount > 0)
+		await db_tx_execute(conn, 'INSERT INTO `charity_items` (`item_id`, `qty`) VALUES(?, ?) ON DUPLICATE KEY UPDATE `qty` = `qty` + ?', ['melvorD:GP', charity_amount, charity_amount]);
+}
 
-	friend_request_cache.set(client_id, requests);
+async function market_buy_lot(client_id: number, lot_id: number, buy_qty: number) {
+	const purchase = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		if (lot === null || lot.available <= 0)
+			return { error_lang: 'MOD_KMM_MARKET_BUY_ERROR_INVALID' };
 
-	return requests;
-}
+		if (lot.client_id === client_id)
+			return { error_lang: 'MOD_KMM_MARKET_BUY_ERROR_SELF' };
 
-async function friend_request_exists(client_id: number, friend_id: number): Promise<boolean> {
-	return await db_exists('SELECT 1 FROM `friend_requests` WHERE `client_id` = ? AND `friend_id` = ?', [client_id, friend_id]);
-}
+		const final_qty = Math.min(lot.available, buy_qty);
+		const final_cost = final_qty * lot.price;
 
-async function create_friend_request(client_id: number, friend_id: number) {
-	const request_id = await db_insert('INSERT INTO `friend_requests` (`client_id`, `friend_id`) VALUES(?, ?)', [client_id, friend_id]);
+		await db_tx_execute(conn, 'UPDATE `market_items` SET `available` = `available` - ? WHERE `id` = ? LIMIT 1', [final_qty, lot.id]);
+		await escrow_transfer(conn, lot.item_id, final_qty, EscrowAccount.MarketLot, lot.id, EscrowAccount.Client, client_id);
+		await market_record_sale(conn, lot, final_qty, client_id);
 
-	friend_request_cache.get(client_id)?.push({
-		friend: await get_client_display(friend_id),
-		request_id,
+		return { lot, final_qty, final_cost };
 	});
-}
 
-async function get_friend_request(request_id: number): Promise<db_row.friend_requests> {
-	return await db_get_single('SELECT `request_id`, `client_id`, `friend_id` FROM `friend_requests` WHERE `request_id` = ?', [request_id]) as db_row.friend_requests;
-}
+	if (purchase === null)
+		return null;
 
-async function delete_friend_request(request: db_row.friend_requests) {
-	if (request === null)
-		return;
+	if (purchase.error_lang !== undefined)
+		return { error_lang: purchase.error_lang };
 
-	const cached = friend_request_cache.get(request.client_id);
-	if (cached !== undefined) {
-		const index = cached.findIndex(entry => entry.request_id === request.request_id);
-		if (index !== -1)
-			cached.splice(index, 1);
-	}
+	const { lot, final_qty, final_cost } = purchase;
+	if (lot.available - final_qty <= 0)
+		market_completed_cached.get(lot.client_id)?.push(lot.id);
 
-	await db_execute('DELETE FROM `friend_requests` WHERE `request_id` = ?', [request.request_id]);
+	return {
+		item_id: lot.item_id,
+		item_qty: final_qty,
+		price: lot.price,
+		gp_loss: final_cost,
+		new_item_qty: Math.max(lot.available - final_qty, 0)
+	};
 }
-// #endregion
 
-// #region FRIENDS
-async function friendship_exists(client_id_a: number, client_id_b: number): Promise<boolean> {
-	return await db_exists('SELECT 1 FROM `friends` WHERE (`client_id_a` = ? AND `client_id_b` = ?) OR (`client_id_a` = ? AND `client_id_b` = ?)', [client_id_a, client_id_b, client_id_b, client_id_a]);
-}
+async function market_payout_lot(client_id: number, lot_id: number) {
+	const payout = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		if (lot?.client_id !== client_id)
+			return null;
 
-async function create_friendship(client_id_a: number, client_id_b: number) {
-	await db_execute('INSERT INTO `friends` (`client_id_a`, `client_id_b`) VALUES(?, ?)', [client_id_a, client_id_b]);
-}
+		const lot_profit = (lot.qty - lot.available) * lot.price;
+		const payout_available = lot_profit - lot.payout;
+		const payout_tax = get_market_tax(payout_available);
+		const ended = lot.available === 0;
 
-async function get_friends(client_id: number) {
-	return await db_get_all('SELECT c.`id` AS `friend_id`, c.`display_name`, c.`icon_id` FROM `friends` JOIN `clients` AS c ON c.`id` = IF(`client_id_a` = ?, `client_id_b`, `client_id_a`) WHERE `client_id_a` = ? OR `client_id_b` = ?', [client_id, client_id, client_id]);
-}
+		if (ended)
+			await db_tx_execute(conn, 'DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
+		else
+			await db_tx_execute(conn, 'UPDATE `market_items` SET `payout` = `payout` + ? WHERE `id` = ? LIMIT 1', [payout_available, lot.id]);
 
-async function delete_friend(client_id: number, friend_id: number) {
-	await db_execute('DELETE FROM `friends` WHERE (`client_id_a` = ? AND `client_id_b` = ?) OR (`client_id_a` = ? AND `client_id_b` = ?)', [client_id, friend_id, friend_id, client_id]);
-}
-// #endregion
+		await market_collect_tax(conn, client_id, 'payout', payout_tax);
 
-// #region GIFT FN
-async function has_pending_gift(client_id: number, recipient_id: number) {
-	return await db_exists('SELECT 1 FROM `gifts` WHERE `client_id` = ? AND `sender_id` = ? LIMIT 1', [recipient_id, client_id]);
+		return { payout: payout_available - payout_tax, tax: payout_tax, ended };
+	});
+
+	if (payout?.ended)
+		remove_player_cache_entry(market_completed_cached, client_id, lot_id);
+
+	return payout;
 }
 
-async function send_gift(client_id: number, recipient_id: number, items: TransferItem[]) {
-	const gift_id = await db_insert('INSERT INTO `gifts` (`client_id`, `sender_id`) VALUES(?, ?)', [recipient_id, client_id]);
+async function market_cancel_lot(client_id: number, lot_id: number) {
+	const payout = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		if (lot?.client_id !== client_id)
+			return null;
 
-	gift_cache.get(recipient_id)?.push(gift_id);
+		const lot_profit = (lot.qty - lot.available) * lot.price;
+		const payout_available = lot_profit - lot.payout;
+		const payout_tax = get_market_tax(payout_available);
 
-	for (const item of items) {
-		if (item.qty >= 0)
-			await db_execute('INSERT INTO `gift_items` (`gift_id`, `item_id`, `qty`) VALUES(?, ?, ?)', [gift_id, item.id, item.qty]);
-	}
-}
+		await db_tx_execute(conn, 'DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
+		await market_collect_tax(conn, client_id, 'cancel', payout_tax);
 
-async function get_gift(gift_id: number) {
-	return await db_get_single('SELECT * FROM `gifts` WHERE `gift_id` = ? LIMIT 1', [gift_id]) as db_row.gifts;
-}
+		// unsold stock is handed back to the seller
+		await escrow_transfer(conn, lot.item_id, lot.available, EscrowAccount.MarketLot, lot.id, EscrowAccount.Client, client_id);
 
-async function get_gift_items(gift_id: number) {
-	return await db_get_all('SELECT `id`, `item_id`, `qty` FROM `gift_items` WHERE `gift_id` = ?', [gift_id]) as db_row.gift_items[];
+		return { payout: payout_available - payout_tax, tax: payout_tax, item_id: lot.item_id, item_qty: lot.available };
+	});
+
+	if (payout !== null)
+		remove_player_cache_entry(market_completed_cached, client_id, lot_id);
+
+	return payout;
 }
 
-async function get_client_gifts(client_id: number) {
-	const cached_entries = gift_cache.get(client_id);
-	if (cached_entries)
-		return cached_entries;
+async function market_expire_lot(lot_id: number) {
+	const expired = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		if (lot === null)
+			return null;
 
-	const result = await db_get_all('SELECT `gift_id` FROM `gifts` WHERE `client_id` = ?', [client_id]) as db_row.gifts[];
-	const gift_ids = result.map(row => row?.gift_id) as number[];
+		await db_tx_execute(conn, 'DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
 
-	gift_cache.set(client_id, gift_ids);
+		const payout_available = ((lot.qty - lot.available) * lot.price) - lot.payout;
+		if (lot.available <= 0 && payout_available <= 0)
+			return { lot, gift_id: -1 };
 
-	return gift_ids;
-}
+		// unsold stock and unclaimed profit are returned to the seller as a gift from themselves
+		const gift_id = await db_tx_insert(conn,
+			'INSERT INTO `gifts` (`client_id`, `sender_id`, `flags`) VALUES(?, ?, ?)',
+			[lot.client_id, lot.client_id, GiftFlags.Returned | GiftFlags.MarketExpired]
+		);
 
-async function delete_gift(gift: db_row.gifts) {
-	if (!gift)
+		if (lot.available > 0) {
+			await db_tx_execute(conn, 'INSERT INTO `gift_items` (`gift_id`, `item_id`, `qty`) VALUES(?, ?, ?)', [gift_id, lot.item_id, lot.available]);
+			await escrow_transfer(conn, lot.item_id, lot.available, EscrowAccount.MarketLot, lot.id, EscrowAccount.Gift, gift_id);
+		}
+
+		const payout_tax = get_market_tax(payout_available);
+		await market_collect_tax(conn, lot.client_id, 'expired', payout_tax);
+
+		if (payout_available - payout_tax > 0) {
+			await db_tx_execute(conn, 'INSERT INTO `gift_items` (`gift_id`, `item_id`, `qty`) VALUES(?, ?, ?)', [gift_id, 'melvorD:GP', payout_available - payout_tax]);
+			await escrow_transfer(conn, 'melvorD:GP', payout_available - payout_tax, EscrowAccount.System, 0, EscrowAccount.Gift, gift_id);
+		}
+
+		return { lot, gift_id };
+	});
+
+	if (expired === null)
 		return;
 
-	remove_player_cache_entry(gift_cache, gift.client_id, gift.gift_id);
+	remove_player_cache_entry(market_completed_cached, expired.lot.client_id, expired.lot.id);
 
-	await db_execute('DELETE FROM `gifts` WHERE `gift_id` = ?', [gift.gift_id]);
-	await db_execute('DELETE FROM `gift_items` WHERE `gift_id` = ?', [gift.gift_id]);
+	if (expired.gift_id !== -1)
+		gift_cache.get(expired.lot.client_id)?.push(expired.gift_id);
 }
 
-async function return_gift(gift: db_row.gifts) {
-	if (!gift)
-		return;
+async function get_market_completed(client_id: number) {
+	const cached = market_completed_cached.get(client_id);
+	if (cached)
+		return cached;
 
-	remove_player_cache_entry(gift_cache, gift.client_id, gift.gift_id);
-	gift_cache.get(gift.sender_id)?.push(gift.gift_id);
+	const results = await db_get_all('SELECT `id` FROM `market_items` WHERE `client_id` = ? AND `available` = 0', [client_id]) as db_row.market_items[];
+	const completed = results.map(row => row.id);
 
-	await db_execute(
-		'UPDATE `gifts` SET `client_id` = ?, `sender_id` = ?, `flags` = `flags` | ? WHERE `gift_id` = ?',
-		[gift.sender_id, gift.client_id, GiftFlags.Returned, gift.gift_id]
-	);
+	market_completed_cached.set(client_id, completed);
+	return completed;
 }
 // #endregion
 
-// #region TRADE FN
-async function trade_exists(sender_id: number, recipient_id: number) {
-	return await db_exists('SELECT 1 FROM `trade_offers` WHERE `sender_id` = ? AND `recipient_id` = ? LIMIT 1', [sender_id, recipient_id]);
+// #region CAMPAIGN
+async function load_campaign_config() {
+	const data = await Bun.file(CAMPAIGN_CONFIG_FILE).json();
+	campaign_config = parse_campaign_config(data, new Set(item_catalogue.keys()));
+
+	log('campaign', 'loaded {%d} campaign definitions across {%d} slots', campaign_config.campaigns.length, campaign_config.slots.length);
 }
 
-async function get_client_trades(client_id: number) {
-	const cached_entries = trade_player_cache.get(client_id);
-	if (cached_entries)
-		return cached_entries;
+function get_campaign_slot(slot_id: string): CampaignSlot | undefined {
+	return campaign_config.slots.find(slot => slot.id === slot_id);
+}
 
-	const result = await db_get_all('SELECT `trade_id` FROM `trade_offers` WHERE `sender_id` = ? OR `recipient_id` = ?', [client_id, client_id]) as db_row.trade_offers[];
-	const trade_ids = result.map(row => row?.trade_id) as number[];
+function get_campaign_data(campaign_id: string): CampaignData | undefined {
+	return campaign_config.campaigns.find(campaign => campaign.id === campaign_id);
+}
 
-	trade_player_cache.set(client_id, trade_ids);
+// the first configured slot is the primary slot, the config always has at least one slot
+function get_primary_slot(): CampaignSlot {
+	return campaign_config.slots[0];
+}
 
-	return trade_ids;
+// undefined until the primary slot's campaign state has loaded
+function get_primary_campaign(): ActiveCampaign | undefined {
+	return active_campaigns.get(get_primary_slot().id);
 }
 
-async function get_trade_offer_meta(trade_id: number) {
-	const cached = trade_cache.get(trade_id);
-	if (cached)
-		return cached;
+function get_active_campaign(id: number): ActiveCampaign | undefined {
+	for (const campaign of active_campaigns.values())
+		if (campaign.id > 0 && campaign.id === id)
+			return campaign;
+}
 
-	const result = await db_get_single('SELECT `attending_id`, `state` FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]) as db_row.trade_offers;
+async function pick_campaign(slot: CampaignSlot): Promise<CampaignData> {
+	const candidates = campaign_config.campaigns.filter(entry => slot.campaigns.includes(entry.id));
+	const in_window = candidates.filter(entry => is_campaign_window_open(entry.window, new Date()));
 
-	if (result)
-		trade_cache.set(trade_id, result as ActiveTrade);
+	const max_cooldown = Math.max(...in_window.map(entry => entry.cooldown), 0);
+	const recent = await db_get_all('SELECT `campaign_id` FROM `campaign_state` WHERE `slot_id` = ? ORDER BY `id` DESC LIMIT ?', [slot.id, max_cooldown.toString()]);
+	const recent_ids = recent.map(row => row.campaign_id);
 
-	return result;
-}
+	const eligible = in_window.filter(entry => {
+		const last_index = recent_ids.indexOf(entry.id);
+		return last_index === -1 || last_index >= entry.cooldown;
+	});
 
-async function get_trade_offer(trade_id: number) {
-	return await db_get_single('SELECT * FROM `trade_offers` WHERE `trade_id` = ? LIMIT 1', [trade_id]) as db_row.trade_offers;
+	// cooldowns and windows are preferences, a slot always gets a campaign
+	if (eligible.length > 0)
+		return weighted_random(eligible);
+
+	if (in_window.length > 0)
+		return weighted_random(in_window);
+
+	return weighted_random(candidates);
 }
 
-async function get_resolved_trade_offer(trade_id: number) {
-	return await db_get_single('SELECT * FROM `resolved_trade_offers` WHERE `trade_id` = ? LIMIT 1', [trade_id]) as db_row.resolved_trade_offers;
+async function get_campaign_difficulty(slot_id: string) {
+	const samples = await db_get_all(
+		'SELECT s.`started`, s.`finished`, s.`size_fac`, ' +
+		'(SELECT SUM(`item_amount`) FROM `campaign_stages` WHERE `campaign_id` = s.`id`) AS `goal`, ' +
+		'(SELECT COALESCE(SUM(`item_amount`), 0) FROM `campaign_contributions` WHERE `campaign_id` = s.`id`) AS `contributed`, ' +
+		'(SELECT COUNT(*) FROM `campaign_contributions` WHERE `campaign_id` = s.`id` AND `item_amount` > 0) AS `contributors` ' +
+		'FROM `campaign_state` AS s WHERE s.`slot_id` = ? AND s.`complete` = 1 AND s.`started` > 0 AND s.`finished` > s.`started` ORDER BY s.`id` DESC LIMIT ?',
+		[slot_id, CAMPAIGN_PARTICIPATION_SAMPLE.toString()]
+	);
+
+	// without history, campaigns run at their defined size with baseline advancement doing the work
+	if (samples.length === 0)
+		return { size_fac: 1, baseline_fac: 1, contributors: 0 };
+
+	let contributor_rate = 0;
+	let contributor_samples = 0;
+	let contributors = 0;
+
+	for (const sample of samples) {
+		contributors += sample.contributors;
+		if (sample.contributors === 0 || !(sample.goal > 0))
+			continue;
+
+		// rates are measured in units of an unscaled campaign, so differently sized campaigns compare
+		const contributed = (Number(sample.contributed) / Number(sample.goal)) * sample.size_fac;
+		contributor_rate += contributed / sample.contributors / (sample.finished - sample.started);
+		contributor_samples++;
+	}
+
+	contributors /= samples.length;
+	if (contributor_samples > 0)
+		contributor_rate /= contributor_samples;
+
+	const projected = contributor_rate * contributors * CAMPAIGN_TARGET_DURATION;
+	const size_fac = Math.min(Math.max(projected / (1 - CAMPAIGN_BASELINE_SHARE), CAMPAIGN_SIZE_FAC_MIN), CAMPAIGN_SIZE_FAC_MAX);
+	const baseline_fac = Math.min(Math.max(1 - projected / size_fac, CAMPAIGN_BASELINE_SHARE), 1);
+
+	return { size_fac, baseline_fac, contributors };
 }
 
-async function get_trade_items(trade_id: number) {
-	return await db_get_all('SELECT `id`, `item_id`, `qty`, `counter` FROM `trade_items` WHERE `trade_id` = ?', [trade_id]) as db_row.gift_items[];
+function get_campaign_projected_completion(campaign: ActiveCampaign): number | null {
+	if (campaign.started === 0)
+		return null;
+
+	const progress = get_campaign_overall_progress(campaign);
+	if (progress <= 0)
+		return campaign.started + CAMPAIGN_TARGET_DURATION;
+
+	return Math.round(campaign.started + (Date.now() - campaign.started) / progress);
 }
 
-async function create_resolved_trade(trade_id: number, client_id: number, sender_id: number, declined: boolean) {
-	await db_execute(
-		'INSERT INTO `resolved_trade_offers` (trade_id, client_id, sender_id, declined) VALUES(?, ?, ?, ?)',
-		[trade_id, client_id, sender_id, declined ? 1 : 0]
+async function start_new_campaign(campaign: ActiveCampaign) {
+	const slot = get_campaign_slot(campaign.slot_id);
+	if (slot === undefined) {
+		active_campaigns.delete(campaign.slot_id);
+		log('campaign', 'slot {%s} removed from config, not restarting', campaign.slot_id);
+		return;
+	}
+
+	const campaign_data = await pick_campaign(slot);
+	const difficulty = await get_campaign_difficulty(slot.id);
+
+	campaign.campaign_id = campaign_data.id;
+	campaign.next_timestamp = 0;
+	campaign.started = Date.now();
+	campaign.milestone = 0;
+	campaign.deadline = campaign_data.deadline !== undefined ? campaign.started + campaign_data.deadline : 0;
+	campaign.baseline_fac = difficulty.baseline_fac;
+
+	campaign.stage = 0;
+	campaign.stages = campaign_data.stages.map(items => {
+		const item = array_random(items) as CampaignItem;
+		const item_total = Math.random() * (item.max - item.min) + item.min;
+
+		return {
+			item_id: item.id,
+			item_total: Math.max(Math.floor(item_total * difficulty.size_fac), 1),
+			item_current: 0
+		};
+	});
+	campaign.pct = 0;
+
+	const stage = campaign.stages[0];
+	log('campaign', 'started new campaign {%s} {%s} {%s} {%s} ({%d} stages)', slot.id, campaign.campaign_id, stage.item_id, stage.item_total, campaign.stages.length);
+	log('campaign', 'campaign difficulty size {%s} baseline {%s} from {%s} recent contributors', difficulty.size_fac.toFixed(2), difficulty.baseline_fac.toFixed(2), difficulty.contributors.toFixed(1));
+
+	// item columns in campaign_state mirror the current stage
+	campaign.id = await db_insert(
+		'INSERT INTO `campaign_state` (slot_id, campaign_id, item_id, item_amount, started, deadline, size_fac, baseline_fac) VALUES(?, ?, ?, ?, ?, ?, ?, ?)',
+		[slot.id, campaign.campaign_id, stage.item_id, stage.item_total, campaign.started, campaign.deadline, difficulty.size_fac, difficulty.baseline_fac]
 	);
 
-	resolved_trade_cache.get(client_id)?.push(trade_id);
+	for (let i = 0; i < campaign.stages.length; i++) {
+		await db_execute(
+			'INSERT INTO `campaign_stages` (`campaign_id`, `stage`, `item_id`, `item_amount`) VALUES(?, ?, ?, ?)',
+			[campaign.id, i, campaign.stages[i].item_id, campaign.stages[i].item_total]
+		);
+	}
+
+	schedule_campaign_deadline(campaign);
 }
 
-async function get_client_resolved_trades(client_id: number) {
-	const cached_entries = resolved_trade_cache.get(client_id);
-	if (cached_entries)
-		return cached_entries;
+function get_campaign_stage(campaign: ActiveCampaign): CampaignStage {
+	return campaign.stages[campaign.stage];
+}
 
-	const result = await db_get_all('SELECT `trade_id` FROM `resolved_trade_offers` WHERE `client_id` = ?', [client_id]) as db_row.resolved_trade_offers[];
-	const trade_ids = result.map(row => row?.trade_id) as number[];
+async function update_campaign_progress(campaign: ActiveCampaign) {
+	const stage = get_campaign_stage(campaign);
+	campaign.pct = stage.item_current / stage.item_total;
 
-	resolved_trade_cache.set(client_id, trade_ids);
+	if (stage.item_current < stage.item_total)
+		return;
 
-	return trade_ids;
+	if (campaign.stage + 1 < campaign.stages.length)
+		return advance_campaign_stage(campaign);
+
+	return finalize_campaign(campaign, campaign.id, CampaignOutcome.Completed);
 }
-// #endregion
 
-// #region SESSIONS
-async function generate_session_token(client_id: number): Promise<string> {
-	await db_execute('DELETE FROM `client_sessions` WHERE `client_id` = ?', [client_id]);
+function get_campaign_overall_progress(campaign: ActiveCampaign): number {
+	const stage = get_campaign_stage(campaign);
+	return (campaign.stage + stage.item_current / stage.item_total) / campaign.stages.length;
+}
 
-	const session_token = crypto.randomUUID();
-	await db_execute('INSERT INTO `client_sessions` (`session_token`, `client_id`) VALUES(?, ?)', [session_token, client_id]);
+function schedule_campaign_deadline(campaign: ActiveCampaign) {
+	if (campaign.deadline === 0)
+		return;
 
-	return session_token;
-}
+	const campaign_state_id = campaign.id;
+	const delay = Math.min(Math.max(campaign.deadline - Date.now(), 0), CAMPAIGN_DEADLINE_CHECK_MAX);
 
-async function get_session_client_id(session_token: unknown): Promise<number> {
-	if (typeof session_token !== 'string')
-		return -1;
+	setTimeout(() => {
+		// the campaign may have finished, or been replaced, since this was scheduled
+		if (campaign.id !== campaign_state_id)
+			return;
 
-	const cached_session = client_session_cache.get(session_token);
-	if (cached_session !== undefined) {		
-		cached_session.last_access = Date.now();
-		return cached_session.client_id;
-	}
+		if (Date.now() < campaign.deadline)
+			return schedule_campaign_deadline(campaign);
 
-	const session_row = await db_get_single('SELECT `client_id` FROM `client_sessions` WHERE `session_token` = ?', [session_token]) as db_row.client_sessions;
-	const client_id = session_row?.client_id ?? -1;
+		log('campaign', 'campaign {%s} {%d} failed to meet its deadline', campaign.slot_id, campaign_state_id);
+		finalize_campaign(campaign, campaign_state_id, CampaignOutcome.Failed);
+	}, delay);
+}
 
-	if (client_id > -1) {
-		client_session_cache.set(session_token, {
-			client_id,
-			last_access: Date.now()
-		});
-	}
+async function advance_campaign_stage(campaign: ActiveCampaign) {
+	campaign.stage++;
+	campaign.pct = 0;
 
-	return client_id;
+	const stage = get_campaign_stage(campaign);
+	await db_execute(
+		'UPDATE `campaign_state` SET `stage` = ?, `item_id` = ?, `item_amount` = ?, `item_current` = ? WHERE `id` = ?',
+		[campaign.stage, stage.item_id, stage.item_total, stage.item_current, campaign.id]
+	);
+
+	log('campaign', 'campaign {%s} advanced to stage {%d} {%s} {%s}', campaign.slot_id, campaign.stage, stage.item_id, stage.item_total);
 }
 
-function validate_session_request(handler: SessionRequestHandler, json_body: boolean = false) {
-	return async (req: Request, url: URL) => {
-		let json = null;
+async function finalize_campaign(campaign: ActiveCampaign, campaign_state_id: number, outcome: CampaignOutcome) {
+	// a deadline and a final contribution can race, only the first one finalizes
+	if (campaign.id !== campaign_state_id)
+		return;
 
-		if (json_body) {
-			// validate content type header
-			if (req.headers.get('Content-Type') !== 'application/json')
-				return 400; // Bad Request
+	const progress = outcome === CampaignOutcome.Completed ? 1 : get_campaign_overall_progress(campaign);
 
-			json = await req.json();
+	campaign.id = 0;
+	const restart_timer = get_campaign_data(campaign.campaign_id)?.restart_timer ?? CAMPAIGN_FALLBACK_RESTART_TIMER;
+	campaign.next_timestamp = Date.now() + restart_timer;
 
-			// validate json is a plain object
-			if (json === null || typeof json !== 'object' || Array.isArray(json))
-				return 400; // Bad Request
+	await db_execute(
+		'UPDATE `campaign_state` SET `complete` = 1, `outcome` = ?, `progress` = ?, `campaign_next` = ?, `finished` = ? WHERE `id` = ?',
+		[outcome, progress, campaign.next_timestamp, Date.now(), campaign_state_id]
+	);
+	await award_campaign_placements(campaign_state_id);
+
+	schedule_campaign_restart(campaign);
+}
+
+async function award_campaign_placements(campaign_state_id: number) {
+	// teams place as one entry, every member shares the placement bonus on what they gave,
+	// which splits the team reward in proportion to each contribution
+	const top = await db_get_all(
+		'SELECT `team_id`, IF(`team_id` > 0, 0, `client_id`) AS `solo_id`, SUM(`item_amount`) AS `total` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `item_amount` > 0 GROUP BY `team_id`, `solo_id` ORDER BY `total` DESC, `team_id` ASC, `solo_id` ASC LIMIT ?',
+		[campaign_state_id, CAMPAIGN_TOP_REWARD_TIERS.length.toString()]
+	);
+
+	for (let i = 0; i < top.length; i++) {
+		const entry = top[i];
+		if (entry.team_id > 0) {
+			await db_execute('UPDATE `campaign_contributions` SET `placement` = ? WHERE `campaign_id` = ? AND `team_id` = ?', [i + 1, campaign_state_id, entry.team_id]);
+			log('campaign', 'awarded placement {%d} for campaign {%d} to team {%d}', i + 1, campaign_state_id, entry.team_id);
+		} else {
+			await db_execute('UPDATE `campaign_contributions` SET `placement` = ? WHERE `campaign_id` = ? AND `client_id` = ?', [i + 1, campaign_state_id, entry.solo_id]);
+			log('campaign', 'awarded placement {%d} for campaign {%d} to client {%d}', i + 1, campaign_state_id, entry.solo_id);
 		}
+	}
+}
 
-		const x_session_token = req.headers.get('X-Session-Token');
-		const client_id = await get_session_client_id(x_session_token);
+async function get_campaign_team_leaderboard(campaign_state_id: number, client_id: number) {
+	const entries = await db_get_all(
+		'SELECT a.`team_id`, t.`name`, SUM(a.`item_amount`) AS `item_amount`, COUNT(*) AS `members`, MAX(a.`placement`) AS `placement` FROM `campaign_contributions` AS a LEFT JOIN `campaign_teams` AS t ON t.`id` = a.`team_id` WHERE a.`campaign_id` = ? AND a.`team_id` > 0 AND a.`item_amount` > 0 GROUP BY a.`team_id`, t.`name` ORDER BY `item_amount` DESC, a.`team_id` ASC LIMIT ?',
+		[campaign_state_id, CAMPAIGN_LEADERBOARD_SIZE.toString()]
+	);
 
-		if (client_id === -1)
-			return 401; // Unauthorized
+	const own_entry = await db_get_single(
+		'SELECT `team_id`, SUM(`item_amount`) AS `item_amount` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `team_id` = (SELECT `team_id` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `client_id` = ?) AND `team_id` > 0 GROUP BY `team_id`',
+		[campaign_state_id, campaign_state_id, client_id]
+	);
 
-		return handler(req, url, client_id, json as JsonObject);
+	let own = null;
+	if (own_entry !== null) {
+		const own_amount = Number(own_entry.item_amount);
+		const ahead = await db_count(
+			'SELECT COUNT(*) AS `count` FROM (SELECT `team_id`, SUM(`item_amount`) AS `total` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `team_id` > 0 GROUP BY `team_id`) AS t WHERE t.`total` > ? OR (t.`total` = ? AND t.`team_id` < ?)',
+			[campaign_state_id, own_amount, own_amount, own_entry.team_id]
+		);
+
+		own = { position: ahead + 1, team_id: own_entry.team_id, item_amount: own_amount };
+	}
+
+	return {
+		entries: entries.map((entry, index) => ({
+			position: index + 1,
+			team_id: entry.team_id,
+			name: entry.name ?? null, // null once a team has disbanded
+			item_amount: Number(entry.item_amount),
+			members: entry.members,
+			placement: entry.placement
+		})),
+		own
 	};
 }
 
-function session_get_route(route: string, handler: SessionRequestHandler) {
-	server.route(route, validate_session_request(handler), 'GET');
+async function get_client_team_id(client_id: number): Promise<number> {
+	const member = await db_get_single('SELECT `team_id` FROM `campaign_team_members` WHERE `client_id` = ?', [client_id]);
+	return member?.team_id ?? 0;
 }
 
-function session_post_route(route: string, handler: SessionRequestHandler) {
-	server.route(route, validate_session_request(handler, true), 'POST');
+async function get_campaign_team(team_id: number) {
+	const team = await db_get_single('SELECT `id`, `owner_id`, `name` FROM `campaign_teams` WHERE `id` = ?', [team_id]) as db_row.campaign_teams;
+	if (team === null)
+		return null;
+
+	const members = await db_get_all('SELECT c.`id` AS `client_id`, c.`display_name`, c.`icon_id` FROM `campaign_team_members` AS m JOIN `clients` AS c ON c.`id` = m.`client_id` WHERE m.`team_id` = ? ORDER BY m.`joined` ASC', [team_id]);
+	return { id: team.id, owner_id: team.owner_id, name: team.name, members };
 }
-// #endregion
 
-// #region ROUTES MARKET
-session_post_route('/api/market/sell', async (req, url, client_id, json) => {
-	const item_qty = json.item_qty;
-	const item_sell_price = json.item_sell_price;
+function validate_team_name(name: unknown): string | null {
+	if (typeof name !== 'string')
+		return null;
 
-	if (typeof item_qty !== 'number' || typeof item_sell_price !== 'number')
-		return 400; // Bad Request
+	const trimmed = name.trim();
+	if (trimmed.length === 0 || trimmed.length > 20)
+		return null;
 
-	if (item_qty <= 0)
-		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_NOTHING' };
+	return trimmed;
+}
 
-	if (item_sell_price <= 0)
-		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_FREE' };
+async function disband_campaign_team(team_id: number) {
+	// past contributions keep their team_id, so leaderboards for old campaigns still group them
+	await db_execute('DELETE FROM `campaign_team_members` WHERE `team_id` = ?', [team_id]);
+	await db_execute('DELETE FROM `campaign_teams` WHERE `id` = ?', [team_id]);
+	log('campaign', 'disbanded team {%d}', team_id);
+}
 
-	const item_id = json.item_id;
-	if (typeof item_id !== 'string')
-		return 400; // Bad Request
+async function remove_shared_team_member(client_id_a: number, client_id_b: number) {
+	// teams are made of the owner's friends, ending a friendship with the owner ends membership
+	const team = await db_get_single(
+		'SELECT t.`id`, t.`owner_id` FROM `campaign_teams` AS t JOIN `campaign_team_members` AS m ON m.`team_id` = t.`id` WHERE t.`owner_id` IN (?, ?) AND m.`client_id` IN (?, ?) AND m.`client_id` <> t.`owner_id` LIMIT 1',
+		[client_id_a, client_id_b, client_id_a, client_id_b]
+	);
 
-	if (!item_id.startsWith('melvor'))
-		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_MODDED' };
+	if (team !== null) {
+		const member_id = team.owner_id === client_id_a ? client_id_b : client_id_a;
+		await db_execute('DELETE FROM `campaign_team_members` WHERE `team_id` = ? AND `client_id` = ?', [team.id, member_id]);
+	}
+}
 
-	market_list_item(client_id, item_id, item_qty | 0, item_sell_price);
+async function get_campaign_leaderboard(campaign_state_id: number, client_id: number, friends_only: boolean) {
+	const filters = ['a.`campaign_id` = ?', 'a.`item_amount` > 0'];
+	const filter_values: Array<string | number> = [campaign_state_id];
 
-	return { success: true } as JsonSerializable;
-});
+	if (friends_only) {
+		filters.push('(a.`client_id` = ? OR a.`client_id` IN (SELECT IF(`client_id_a` = ?, `client_id_b`, `client_id_a`) FROM `friends` WHERE `client_id_a` = ? OR `client_id_b` = ?))');
+		filter_values.push(client_id, client_id, client_id, client_id);
+	}
 
-session_post_route('/api/market/buy', async (req, url, client_id, json) => {
-	const lot_id = json.id;
-	if (typeof lot_id !== 'number')
-		return 400; // Bad Request
+	const where = filters.join(' AND ');
+	const entries = await db_get_all(
+		'SELECT a.`client_id`, a.`item_amount`, a.`placement`, c.`display_name`, c.`icon_id` FROM `campaign_contributions` AS a JOIN `clients` AS c ON c.`id` = a.`client_id` WHERE ' + where + ' ORDER BY a.`item_amount` DESC, a.`client_id` ASC LIMIT ?',
+		[...filter_values, CAMPAIGN_LEADERBOARD_SIZE.toString()]
+	);
 
-	const buy_qty = json.qty;
-	if (typeof buy_qty !== 'number' || buy_qty <= 0)
-		return 400; // Bad Request
+	const own_entry = await db_get_single('SELECT `item_amount`, `placement` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `client_id` = ? AND `item_amount` > 0', [campaign_state_id, client_id]) as db_row.campaign_contributions;
 
-	const lot = await db_get_single('SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1', [lot_id]) as db_row.market_items;
-	if (lot === null || lot.available <= 0)
-		return { error_lang: 'MOD_KMM_MARKET_BUY_ERROR_INVALID' };
+	let own = null;
+	if (own_entry !== null) {
+		// ties are broken by client_id, matching the ordering of the leaderboard itself
+		const ahead = await db_count(
+			'SELECT COUNT(*) AS `count` FROM `campaign_contributions` AS a WHERE ' + where + ' AND (a.`item_amount` > ? OR (a.`item_amount` = ? AND a.`client_id` < ?))',
+			[...filter_values, own_entry.item_amount, own_entry.item_amount, client_id]
+		);
 
-	if (lot.client_id === client_id)
-		return { error_lang: 'MOD_KMM_MARKET_BUY_ERROR_SELF' };
+		own = { position: ahead + 1, item_amount: own_entry.item_amount, placement: own_entry.placement };
+	}
 
-	const final_qty = Math.min(lot.available, buy_qty | 0);
-	const final_cost = final_qty * lot.price;
+	return {
+		entries: entries.map((entry, index) => ({
+			position: index + 1,
+			display_name: entry.display_name,
+			icon_id: entry.icon_id,
+			item_amount: entry.item_amount,
+			placement: entry.placement,
+			is_self: entry.client_id === client_id
+		})),
+		own
+	};
+}
 
-	if (lot.available - final_qty <= 0)
-		market_completed_cached.get(lot.client_id)?.push(lot.id);
+async function load_campaign_state() {
+	for (const slot of campaign_config.slots)
+		await load_campaign_slot(slot.id);
+}
 
-	await db_execute('UPDATE `market_items` SET `available` = `available` - ? WHERE `id` = ? LIMIT 1', [final_qty, lot_id]);
+async function load_campaign_slot(slot_id: string) {
+	const campaign: ActiveCampaign = { slot_id, id: 0, campaign_id: '', stage: 0, stages: [], pct: 0, next_timestamp: 0, started: 0, milestone: 0, deadline: 0, baseline_fac: 1 };
+	active_campaigns.set(slot_id, campaign);
 
-	return {
-		success: true,
-		item_id: lot.item_id,
-		item_qty: final_qty,
-		gp_loss: final_cost,
-		new_item_qty: Math.max(lot.available - final_qty, 0)
-	} as JsonSerializable;
-});
+	const state = await db_get_single('SELECT * FROM `campaign_state` WHERE `slot_id` = ? ORDER BY `id` DESC LIMIT 1', [slot_id]) as db_row.campaign_state;
+	if (state === null)
+		return start_new_campaign(campaign);
 
-session_get_route('/api/market/listings', async (req, url, client_id) => {
-	const results = await db_get_all('SELECT * FROM `market_items` WHERE `client_id` = ?', [client_id]);
-	const items = Array(results.length);
+	if (state.complete === 1) {
+		campaign.next_timestamp = state.campaign_next;
+		return schedule_campaign_restart(campaign);
+	}
 
-	for (let i = 0; i < results.length; i++) {
-		const row = results[i] as db_row.market_items;
+	const stages = await db_get_all('SELECT `item_id`, `item_amount`, `item_current` FROM `campaign_stages` WHERE `campaign_id` = ? ORDER BY `stage` ASC', [state.id]) as db_row.campaign_stages[];
 
-		items[i] = {
-			id: row.id,
-			item_id: row.item_id,
-			available: row.available,
-			qty: row.qty,
-			price: row.price,
-			payout: row.payout
-		};
+	campaign.id = state.id;
+	campaign.campaign_id = state.campaign_id;
+	campaign.stage = state.stage;
+	campaign.started = state.started;
+	campaign.milestone = state.milestone;
+	campaign.deadline = state.deadline;
+	campaign.baseline_fac = state.baseline_fac;
+	campaign.stages = stages.map(row => ({ item_id: row.item_id, item_total: row.item_amount, item_current: row.item_current }));
+
+	const stage = get_campaign_stage(campaign);
+	log('campaign', 'loaded campaign state: {%s} {%s} stage {%d} {%s} {%s}/{%s}', slot_id, campaign.campaign_id, campaign.stage, stage.item_id, stage.item_current, stage.item_total);
+
+	update_campaign_progress(campaign);
+	schedule_campaign_deadline(campaign);
+}
+
+async function reload_campaign_config() {
+	await load_campaign_config();
+
+	// running campaigns are left to finish, new slots start straight away
+	for (const slot of campaign_config.slots) {
+		if (!active_campaigns.has(slot.id))
+			await load_campaign_slot(slot.id);
 	}
+}
+
+async function schedule_campaign_restart(campaign: ActiveCampaign) {
+	const current_time = Date.now();
+	if (current_time >= campaign.next_timestamp)
+		return start_new_campaign(campaign);
 
+	setTimeout(() => start_new_campaign(campaign), campaign.next_timestamp - current_time);
+	log('campaign', 'scheduled campaign restart for {%s} at {%s}', campaign.slot_id, new Date(campaign.next_timestamp).toUTCString());
+}
+
+function get_campaign_progress(campaign: ActiveCampaign) {
 	return {
-		success: true,
-		items
+		id: campaign.id,
+		slot: campaign.slot_id,
+		active: campaign.id > 0,
+		pct: campaign.pct,
+		stage: campaign.stage,
+		stage_count: campaign.stages.length
 	};
-});
+}
+
+async function add_campaign_progress(campaign: ActiveCampaign, campaign_state_id: number, item_qty: number, is_baseline = false) {
+	// the campaign may have finished while the caller was waiting on the database
+	if (campaign.id !== campaign_state_id)
+		return;
+
+	const stage = get_campaign_stage(campaign);
+	const previous = stage.item_current;
+	stage.item_current = Math.min(stage.item_total, stage.item_current + item_qty);
+
+	await db_execute('UPDATE `campaign_stages` SET `item_current` = ? WHERE `campaign_id` = ? AND `stage` = ?', [stage.item_current, campaign.id, campaign.stage]);
+	await db_execute('UPDATE `campaign_state` SET `item_current` = ? WHERE `id` = ?', [stage.item_current, campaign.id]);
+
+	// baseline advancement is tracked so past campaigns can show how much players actually gave
+	if (is_baseline)
+		await db_execute('UPDATE `campaign_state` SET `baseline` = `baseline` + ? WHERE `id` = ?', [stage.item_current - previous, campaign.id]);
+
+	if (campaign.id !== campaign_state_id)
+		return;
+
+	await check_campaign_milestones(campaign);
+
+	if (campaign.id !== campaign_state_id)
+		return;
+
+	await update_campaign_progress(campaign);
+}
+
+async function check_campaign_milestones(campaign: ActiveCampaign) {
+	const campaign_state_id = campaign.id;
+	const progress = get_campaign_overall_progress(campaign);
+
+	while (campaign.milestone < CAMPAIGN_MILESTONES.length && progress >= CAMPAIGN_MILESTONES[campaign.milestone]) {
+		const milestone = CAMPAIGN_MILESTONES[campaign.milestone++];
+
+		await db_execute('UPDATE `campaign_state` SET `milestone` = ? WHERE `id` = ?', [campaign.milestone, campaign_state_id]);
+		await award_campaign_milestone(campaign_state_id, milestone);
+	}
+}
+
+async function award_campaign_milestone(campaign_state_id: number, milestone: number) {
+	const rows = await db_get_all(
+		'SELECT a.`client_id`, a.`item_amount`, b.`item_id` FROM `campaign_stage_contributions` AS a JOIN `campaign_stages` AS b ON b.`campaign_id` = a.`campaign_id` AND b.`stage` = a.`stage` WHERE a.`campaign_id` = ? AND a.`item_amount` > 0',
+		[campaign_state_id]
+	);
+
+	const client_values = new Map<number, number>();
+	for (const row of rows) {
+		const item_value = (item_catalogue.get(row.item_id)?.sells_for ?? 0) * row.item_amount;
+		client_values.set(row.client_id, (client_values.get(row.client_id) ?? 0) + item_value);
+	}
+
+	const pct = Math.round(milestone * 100);
+	for (const [client_id, item_value] of client_values) {
+		const reward = Math.max(Math.floor(item_value * CAMPAIGN_MILESTONE_REWARD_FAC), 1);
+		const milestone_id = await db_insert(
+			'INSERT INTO `campaign_milestones` (`campaign_id`, `client_id`, `pct`, `reward`, `timestamp`) VALUES(?, ?, ?, ?, ?)',
+			[campaign_state_id, client_id, pct, reward, Date.now()]
+		);
+
+		campaign_milestones_cached.get(client_id)?.push(milestone_id);
+	}
+
+	log('campaign', 'campaign {%d} reached milestone {%d%%}, rewarded {%d} contributors', campaign_state_id, pct, client_values.size);
+}
+
+async function get_campaign_milestones_pending(client_id: number) {
+	const cached = campaign_milestones_cached.get(client_id);
+	if (cached)
+		return cached;
+
+	const results = await db_get_all('SELECT `id` FROM `campaign_milestones` WHERE `client_id` = ? AND `claimed` = 0', [client_id]) as db_row.campaign_milestones[];
+	const pending = results.map(row => row.id);
+
+	campaign_milestones_cached.set(client_id, pending);
+	return pending;
+}
+
+async function get_campaign_stage_contributions(client_id: number, campaign_ids: number[]) {
+	const contributions = new Map<number, CampaignStageContribution[]>();
+	if (campaign_ids.length === 0)
+		return contributions;
+
+	const placeholders = campaign_ids.map(() => '?').join(', ');
+	const rows = await db_get_all(
+		'SELECT a.`campaign_id`, a.`item_amount`, b.`item_id` FROM `campaign_stage_contributions` AS a JOIN `campaign_stages` AS b ON b.`campaign_id` = a.`campaign_id` AND b.`stage` = a.`stage` WHERE a.`client_id` = ? AND a.`campaign_id` IN (' + placeholders + ') ORDER BY a.`stage` ASC',
+		[client_id, ...campaign_ids]
+	);
+
+	for (const row of rows) {
+		const entries = contributions.get(row.campaign_id) ?? [];
+		entries.push({ item_id: row.item_id, item_amount: row.item_amount });
+		contributions.set(row.campaign_id, entries);
+	}
+
+	return contributions;
+}
+
+async function get_campaign_contribution_limit(conn: PoolConnection, campaign: ActiveCampaign, client_id: number) {
+	const stage = get_campaign_stage(campaign);
+
+	// the team a player contributes with is fixed by their first contribution to a campaign
+	const contribution = await db_tx_get_single(conn, 'SELECT `team_id` FROM `campaign_contributions` WHERE `client_id` = ? AND `campaign_id` = ?', [client_id, campaign.id]) as db_row.campaign_contributions;
+	const member = contribution === null ? await db_tx_get_single(conn, 'SELECT `team_id` FROM `campaign_team_members` WHERE `client_id` = ?', [client_id]) : null;
+	const team_id = contribution?.team_id ?? member?.team_id ?? 0;
+
+	const team_size = team_id > 0 ? await db_tx_get_single(conn, 'SELECT COUNT(*) AS `count` FROM `campaign_team_members` WHERE `team_id` = ?', [team_id]) : null;
+	if (Number(team_size?.count ?? 0) >= CAMPAIGN_TEAM_MIN_MEMBERS) {
+		// members contributing at the same time share the cap, the team row serializes them
+		await db_tx_get_single(conn, 'SELECT `id` FROM `campaign_teams` WHERE `id` = ? FOR UPDATE', [team_id]);
+
+		const team_given = await db_tx_get_single(conn, 
+			'SELECT COALESCE(SUM(s.`item_amount`), 0) AS `item_amount` FROM `campaign_stage_contributions` AS s JOIN `campaign_contributions` AS c ON c.`campaign_id` = s.`campaign_id` AND c.`client_id` = s.`client_id` WHERE s.`campaign_id` = ? AND s.`stage` = ? AND c.`team_id` = ?',
+			[campaign.id, campaign.stage, team_id]
+		);
+
+		const max_team_contrib = stage.item_total * CAMPAIGN_MAX_TEAM_CONTRIB_FAC;
+		return { team_id, remaining: Math.max(max_team_contrib - Number(team_given?.item_amount ?? 0), 0) };
+	}
+
+	const solo_given = await db_tx_get_single(conn, 'SELECT `item_amount` FROM `campaign_stage_contributions` WHERE `client_id` = ? AND `campaign_id` = ? AND `stage` = ?', [client_id, campaign.id, campaign.stage]) as db_row.campaign_stage_contributions;
+	const max_solo_contrib = stage.item_total * CAMPAIGN_MAX_SOLO_CONTRIB_FAC;
+
+	return { team_id, remaining: Math.max(max_solo_contrib - (solo_given?.item_amount ?? 0), 0) };
+}
+
+async function get_campaign_info(campaign: ActiveCampaign, client_id: number): Promise<JsonObject> {
+	if (campaign.id === 0) {
+		return {
+			active: false,
+			slot: campaign.slot_id,
+			next_campaign: campaign.next_timestamp
+		};
+	}
+
+	const contributions = await db_get_all(
+		'SELECT `stage`, `item_amount` FROM `campaign_stage_contributions` WHERE `client_id` = ? AND `campaign_id` = ?',
+		[client_id, campaign.id]
+	) as db_row.campaign_stage_contributions[];
+
+	const stages = campaign.stages.map((stage, index) => ({
+		item_id: stage.item_id,
+		item_total: stage.item_total,
+		item_current: stage.item_current,
+		contribution: contributions.find(row => row.stage === index)?.item_amount ?? 0
+	}));
+
+	// top-level item fields describe the current stage
+	const stage = stages[campaign.stage];
+	const contribution_limit = await db_transaction(conn => get_campaign_contribution_limit(conn, campaign, client_id));
+
+	return {
+		active: true,
+		id: campaign.id,
+		slot: campaign.slot_id,
+		campaign_id: campaign.campaign_id,
+		contribution: stage.contribution,
+		contribution_remaining: contribution_limit?.remaining ?? 0,
+		team_id: contribution_limit?.team_id ?? 0,
+		item_id: stage.item_id,
+		item_total: stage.item_total,
+		stage: campaign.stage,
+		stages,
+		started: campaign.started,
+		deadline: campaign.deadline,
+		projected_completion: get_campaign_projected_completion(campaign)
+	};
+}
+
+// failed campaigns pay out in proportion to the progress made before the deadline
+function get_campaign_reward(campaign_id: string, contributions: CampaignStageContribution[], placement: number, progress: number, rankings: Record<string, number>) {
+	let item_value = 0;
+	for (const contribution of contributions)
+		item_value += (item_catalogue.get(contribution.item_id)?.sells_for ?? 0) * contribution.item_amount;
+
+	const has_pet = (rankings[campaign_id] ?? 0) >= CAMPAIGN_PET_RANKING;
+	const placement_bonus = placement > 0 ? CAMPAIGN_TOP_REWARD_TIERS[placement - 1] ?? 0 : 0;
+	const reward_mod = CAMPAIGN_REWARD_MOD + (has_pet ? CAMPAIGN_PET_REWARD_BONUS : 0) + placement_bonus;
+
+	return Math.floor(item_value * reward_mod * progress);
+}
+
+async function get_campaign_history(client_id: number, rankings: Record<string, number>, page = 0, per_page = CAMPAIGN_HISTORY_PER_PAGE) {
+	const history = await db_get_all(
+		'SELECT a.`item_amount`, a.`taken`, a.`placement`, b.`id`, b.`campaign_id`, b.`item_id`, b.`outcome`, b.`progress` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND b.`complete` = 1 ORDER BY a.`campaign_id` DESC LIMIT ? OFFSET ?',
+		[client_id, per_page.toString(), (page * per_page).toString()]
+	);
+
+	const stage_contributions = await get_campaign_stage_contributions(client_id, history.map(row => row.id));
+
+	// claimed campaigns report what was taken, unclaimed campaigns report what is on offer
+	for (const row of history) {
+		row.stages = stage_contributions.get(row.id) ?? [];
+		row.reward = row.taken > 0 ? row.taken : get_campaign_reward(row.campaign_id, row.stages, row.placement, row.progress, rankings);
+	}
+
+	return history;
+}
+
+// only completed campaigns count towards rankings (and pets), failed campaigns are counted separately
+async function get_campaign_details(campaign_state_id: number, client_id: number) {
+	const state = await db_get_single('SELECT * FROM `campaign_state` WHERE `id` = ? AND `complete` = 1', [campaign_state_id]) as db_row.campaign_state;
+	if (state === null)
+		return null;
+
+	const stages = await db_get_all('SELECT `item_id`, `item_amount` AS `item_total`, `item_current` FROM `campaign_stages` WHERE `campaign_id` = ? ORDER BY `stage` ASC', [campaign_state_id]);
+	const totals = await db_get_single('SELECT COUNT(*) AS `contributors`, COALESCE(SUM(`item_amount`), 0) AS `item_amount` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `item_amount` > 0', [campaign_state_id]);
+
+	const item_total = stages.reduce((total, stage) => total + stage.item_total, 0);
+	const own_entry = await db_get_single('SELECT `item_amount`, `taken`, `placement` FROM `campaign_contributions` WHERE `campaign_id` = ? AND `client_id` = ? AND `item_amount` > 0', [campaign_state_id, client_id]) as db_row.campaign_contributions;
+
+	let own = null;
+	if (own_entry !== null) {
+		const ahead = await db_count(
+			'SELECT COUNT(*) AS `count` FROM `campaign_contributions` WHERE `campaign_id` = ? AND (`item_amount` > ? OR (`item_amount` = ? AND `client_id` < ?))',
+			[campaign_state_id, own_entry.item_amount, own_entry.item_amount, client_id]
+		);
+
+		const rankings = await get_campaign_rankings(client_id);
+		const stage_contributions = await get_campaign_stage_contributions(client_id, [campaign_state_id]);
+		const reward = own_entry.taken > 0 ? own_entry.taken : get_campaign_reward(state.campaign_id, stage_contributions.get(campaign_state_id) ?? [], own_entry.placement, state.progress, rankings);
+
+		own = {
+			item_amount: own_entry.item_amount,
+			share: item_total > 0 ? own_entry.item_amount / item_total : 0,
+			position: ahead + 1,
+			placement: own_entry.placement,
+			claimed: own_entry.taken > 0,
+			reward
+		};
+	}
+
+	// campaigns from before timestamps were recorded have no duration
+	const has_timestamps = state.started > 0 && state.finished > 0;
+
+	return {
+		id: state.id,
+		slot: state.slot_id,
+		campaign_id: state.campaign_id,
+		outcome: state.outcome,
+		progress: state.progress,
+		started: state.started,
+		finished: state.finished,
+		duration: has_timestamps ? state.finished - state.started : null,
+		item_total,
+		stages,
+		contributors: totals?.contributors ?? 0,
+		player_amount: Number(totals?.item_amount ?? 0),
+		baseline_amount: state.baseline,
+		own
+	};
+}
+
+async function get_campaign_rankings(client_id: number, outcome = CampaignOutcome.Completed) {
+	const rankings_raw = await db_get_all('SELECT b.`campaign_id`, COUNT(*) AS `completed` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND b.`outcome` = ? GROUP BY b.`campaign_id`', [client_id, outcome]);
+	const rankings = {} as Record<string, number>;
+	for (const row of rankings_raw)
+		rankings[row.campaign_id] = row.completed;
+
+	return rankings;
+}
+
+function tick_campaign_baseline_advancement() {
+	for (const campaign of active_campaigns.values()) {
+		if (campaign.id === 0)
+			continue;
+
+		// spread the baseline share over every stage across the target duration
+		const jitter = 1 + (Math.random() * 2 - 1) * CAMPAIGN_BASELINE_ADV_JITTER;
+		const adv_pct = campaign.baseline_fac * campaign.stages.length * (CAMPAIGN_BASELINE_ADV_RATE / CAMPAIGN_TARGET_DURATION) * jitter;
+		const adv_value = Math.floor(get_campaign_stage(campaign).item_total * adv_pct);
+
+		log('campaign', 'baseline advancement {%s} +{%d}', campaign.slot_id, adv_value);
+		add_campaign_progress(campaign, campaign.id, adv_value, true);
+	}
+
+	schedule_campaign_baseline_advancement();
+}
+
+function schedule_campaign_baseline_advancement() {
+	setTimeout(tick_campaign_baseline_advancement, CAMPAIGN_BASELINE_ADV_RATE);
+}
+
+await load_item_catalogue();
+await load_campaign_config();
+load_campaign_state();
+
+schedule_campaign_baseline_advancement();
+// #endregion
+
+// #region FRIEND CODE
+async function is_friend_code_taken(friend_code: string): Promise<boolean> {
+	return db_exists('SELECT 1 FROM `clients` WHERE `friend_code` = ? LIMIT 1', [friend_code]);
+}
+
+function is_valid_friend_code(friend_code: string): boolean {
+	return /^[0-9]{3}-[0-9]{3}-[0-9]{3}$/.test(friend_code);
+}
+
+async function generate_friend_code(): Promise<string> {
+	const chunk = () => Math.floor(Math.random() * 900) + 100;
+	const code = () => chunk() + '-' + chunk() + '-' + chunk();
+
+	let generated_code = code();
+	while (await is_friend_code_taken(generated_code))
+		generated_code = code();
+
+	return generated_code;
+}
+
+async function get_user_id_from_friend_code(friend_code: string): Promise<number> {
+	const user_row = await db_get_single('SELECT `id` FROM `clients` WHERE `friend_code` = ?', [friend_code]) as db_row.clients;
+	return user_row?.id ?? -1;
+}
+// #endregion
+
+// #region DISPLAY NAME FN
+function validate_short_text(text: unknown): string | null {
+	if (typeof text === 'string') {
+		const trimmed = text.trim();
+		if (trimmed.length > 0 && trimmed.length <= 20)
+			return trimmed;
+	}
+	return null;
+}
+
+function validate_display_name(display_name: unknown): string {
+	return validate_short_text(display_name) ?? DEFAULT_USER_DISPLAY_NAME;
+}
+
+async function get_client_display(client_id: number): Promise<ClientDisplayInfo> {
+	const result = { display_name: DEFAULT_USER_DISPLAY_NAME, icon_id: DEFAULT_USER_ICON_ID };
+
+	const cached_display_name = display_name_cache.get(client_id);
+	if (cached_display_name !== undefined)
+		result.display_name = cached_display_name;
+
+	const cached_display_icon = display_icon_cache.get(client_id);
+	if (cached_display_icon !== undefined)
+		result.icon_id = cached_display_icon;
+
+	if (cached_display_name === undefined || cached_display_icon === undefined) {
+		const client = await db_get_single('SELECT `display_name`, `icon_id` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
+
+		if (client !== null) {
+			display_name_cache.set(client_id, client.display_name);
+			display_icon_cache.set(client_id, client.icon_id);
+
+			result.display_name = client.display_name;
+			result.icon_id = client.icon_id;
+		}
+	}
+
+	return result;
+}
+
+async function get_client_display_icon(client_id: number): Promise<string> {
+	const cached = display_icon_cache.get(client_id);
+	if (cached !== undefined)
+		return cached;
+
+	const client = await db_get_single('SELECT `icon_id` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
+	if (client !== null) {
+		display_icon_cache.set(client_id, client.icon_id);
+		return client.icon_id;
+	}
+
+	return DEFAULT_USER_ICON_ID;
+}
+
+async function get_client_display_name(client_id: number): Promise<string> {
+	const cached = display_name_cache.get(client_id);
+	if (cached !== undefined)
+		return cached;
+
+	const client = await db_get_single('SELECT `display_name` FROM `clients` WHERE `id` = ? LIMIT 1', [client_id]) as db_row.clients;
+	if (client !== null) {
+		display_name_cache.set(client_id, client.display_name);
+		return client.display_name;
+	}
+
+	return DEFAULT_USER_DISPLAY_NAME;
+}
+// #endregion
+
+// #region FRIEND REQUESTS
+async function get_friend_requests(client_id: number): Promise<FriendRequest[]> {
+	const cached_entries = friend_request_cache.get(client_id);
+	if (cached_entries)
+		return cached_entries;
+
+	const result = await db_get_all('SELECT `request_id`, `friend_id` FROM `friend_requests` WHERE `client_id` = ?', [client_id]) as db_row.friend_requests[];
+	const requests = [];
+
+	for (const row of result) {
+		requests.push({
+			friend: await get_client_display(row?.friend_id as number),
+			request_id: row?.request_id ?? -1
+		});
+	}
+
+	friend_request_cache.set(client_id, requests);
+
+	return requests;
+}
+
+async function friend_request_exists(client_id: number, friend_id: number): Promise<boolean> {
+	return await db_exists('SELECT 1 FROM `friend_requests` WHERE `client_id` = ? AND `friend_id` = ?', [client_id, friend_id]);
+}
+
+async function create_friend_request(client_id: number, friend_id: number) {
+	const request_id = await db_insert('INSERT INTO `friend_requests` (`client_id`, `friend_id`) VALUES(?, ?)', [client_id, friend_id]);
+
+	friend_request_cache.get(client_id)?.push({
+		friend: await get_client_display(friend_id),
+		request_id,
+	});
+}
+
+async function get_friend_request(request_id: number): Promise<db_row.friend_requests> {
+	return await db_get_single('SELECT `request_id`, `client_id`, `friend_id` FROM `friend_requests` WHERE `request_id` = ?', [request_id]) as db_row.friend_requests;
+}
+
+async function delete_friend_request(request: db_row.friend_requests) {
+	if (request === null)
+		return;
+
+	const cached = friend_request_cache.get(request.client_id);
+	if (cached !== undefined) {
+		const index = cached.findIndex(entry => entry.request_id === request.request_id);
+		if (index !== -1)
+			cached.splice(index, 1);
+	}
+
+	await db_execute('DELETE FROM `friend_requests` WHERE `request_id` = ?', [request.request_id]);
+}
+// #endregion
+
+// #region FRIENDS
+async function friendship_exists(client_id_a: number, client_id_b: number): Promise<boolean> {
+	return await db_exists('SELECT 1 FROM `friends` WHERE (`client_id_a` = ? AND `client_id_b` = ?) OR (`client_id_a` = ? AND `client_id_b` = ?)', [client_id_a, client_id_b, client_id_b, client_id_a]);
+}
+
+async function create_friendship(client_id_a: number, client_id_b: number) {
+	await db_execute('INSERT INTO `friends` (`client_id_a`, `client_id_b`) VALUES(?, ?)', [client_id_a, client_id_b]);
+}
+
+async function get_friends(client_id: number) {
+	return await db_get_all('SELECT c.`id` AS `friend_id`, c.`display_name`, c.`icon_id` FROM `friends` JOIN `clients` AS c ON c.`id` = IF(`client_id_a` = ?, `client_id_b`, `client_id_a`) WHERE `client_id_a` = ? OR `client_id_b` = ?', [client_id, client_id, client_id]);
+}
+
+async function delete_friend(client_id: number, friend_id: number) {
+	await db_execute('DELETE FROM `friends` WHERE (`client_id_a` = ? AND `client_id_b` = ?) OR (`client_id_a` = ? AND `client_id_b` = ?)', [client_id, friend_id, friend_id, client_id]);
+}
+// #endregion
+
+// #region GIFT FN
+async function count_pending_gifts(client_id: number, recipient_id: number) {
+	return await db_count('SELECT COUNT(*) AS `count` FROM `gifts` WHERE `client_id` = ? AND `sender_id` = ?', [recipient_id, client_id]);
+}
+
+function validate_gift_wrapping(json: JsonObject): GiftWrapping | { error_lang: string } | null {
+	// an empty message is the same as no message, anything else must pass as short text
+	let message = '';
+	if (json.message !== undefined && json.message !== '') {
+		const validated = validate_short_text(json.message);
+		if (validated === null)
+			return { error_lang: 'MOD_KMM_GIFT_MESSAGE_INVALID' };
+
+		message = validated;
+	}
+
+	const icon_id = json.icon_id ?? '';
+	if (icon_id !== '') {
+		if (typeof icon_id !== 'string' || !is_vanilla_icon(icon_id))
+			return null;
+
+		if (!is_known_item(icon_id))
+			return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+	}
+
+	return { message, icon_id: icon_id as string };
+}
+
+async function create_gift(conn: PoolConnection, recipient_id: number, sender_id: number, items: TransferItem[], flags: number, wrapping: GiftWrapping, debit_type: EscrowAccount, debit_id: number) {
+	const gift_id = await db_tx_insert(conn,
+		'INSERT INTO `gifts` (`client_id`, `sender_id`, `flags`, `message`, `icon_id`) VALUES(?, ?, ?, ?, ?)',
+		[recipient_id, sender_id, flags, wrapping.message, wrapping.icon_id]
+	);
+
+	for (const item of items) {
+		if (item.qty >= 0) {
+			await db_tx_execute(conn, 'INSERT INTO `gift_items` (`gift_id`, `item_id`, `qty`) VALUES(?, ?, ?)', [gift_id, item.id, item.qty]);
+			await escrow_transfer(conn, item.id, item.qty, debit_type, debit_id, EscrowAccount.Gift, gift_id);
+		}
+	}
+
+	return gift_id;
+}
+
+async function send_gift(client_id: number, recipient_id: number, items: TransferItem[], wrapping: GiftWrapping) {
+	const gift_id = await db_transaction(async conn => {
+		return await create_gift(conn, recipient_id, client_id, items, 0, wrapping, EscrowAccount.Client, client_id);
+	});
+
+	if (gift_id !== null)
+		gift_cache.get(recipient_id)?.push(gift_id);
+
+	return gift_id;
+}
+
+async function get_gift(gift_id: number) {
+	return await db_get_single('SELECT * FROM `gifts` WHERE `gift_id` = ? LIMIT 1', [gift_id]) as db_row.gifts;
+}
+
+async function get_gift_items(gift_id: number) {
+	return await db_get_all('SELECT `id`, `item_id`, `qty` FROM `gift_items` WHERE `gift_id` = ?', [gift_id]) as db_row.gift_items[];
+}
+
+async function get_client_gifts(client_id: number) {
+	const cached_entries = gift_cache.get(client_id);
+	if (cached_entries)
+		return cached_entries;
+
+	const result = await db_get_all('SELECT `gift_id` FROM `gifts` WHERE `client_id` = ?', [client_id]) as db_row.gifts[];
+	const gift_ids = result.map(row => row?.gift_id) as number[];
+
+	gift_cache.set(client_id, gift_ids);
+
+	return gift_ids;
+}
+
+async function delete_gift(gift: db_row.gifts) {
+	if (!gift)
+		return;
+
+	remove_player_cache_entry(gift_cache, gift.client_id, gift.gift_id);
+
+	await db_transaction(async conn => {
+		const items = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `gift_items` WHERE `gift_id` = ? FOR UPDATE', [gift.gift_id]) as db_row.gift_items[];
+		for (const item of items)
+			await escrow_transfer(conn, item.item_id, item.qty, EscrowAccount.Gift, gift.gift_id, EscrowAccount.Client, gift.client_id);
+
+		await db_tx_execute(conn, 'DELETE FROM `gifts` WHERE `gift_id` = ?', [gift.gift_id]);
+		await db_tx_execute(conn, 'DELETE FROM `gift_items` WHERE `gift_id` = ?', [gift.gift_id]);
+	});
+}
+
+async function return_gift(gift: db_row.gifts) {
+	if (!gift)
+		return;
+
+	remove_player_cache_entry(gift_cache, gift.client_id, gift.gift_id);
+	gift_cache.get(gift.sender_id)?.push(gift.gift_id);
+
+	// the items stay escrowed under the gift, only the recipient changes
+	await db_execute(
+		'UPDATE `gifts` SET `client_id` = ?, `sender_id` = ?, `flags` = `flags` | ? WHERE `gift_id` = ?',
+		[gift.sender_id, gift.client_id, GiftFlags.Returned, gift.gift_id]
+	);
+}
+
+async function get_scheduled_gift_items(scheduled_id: number) {
+	return await db_get_all('SELECT `item_id`, `qty` FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]) as db_row.scheduled_gift_items[];
+}
+
+function schedule_gift_delivery(scheduled_id: number, next_delivery: number) {
+	clearTimeout(scheduled_gift_timers.get(scheduled_id));
+
+	const delay = Math.min(Math.max(next_delivery - Date.now(), 0), GIFT_SCHEDULE_CHECK_MAX);
+	scheduled_gift_timers.set(scheduled_id, setTimeout(() => deliver_scheduled_gift(scheduled_id), delay));
+}
+
+async function deliver_scheduled_gift(scheduled_id: number) {
+	scheduled_gift_timers.delete(scheduled_id);
+
+	const scheduled = await db_get_single('SELECT * FROM `scheduled_gifts` WHERE `id` = ? LIMIT 1', [scheduled_id]) as db_row.scheduled_gifts;
+	if (scheduled === null)
+		return;
+
+	if (Date.now() < scheduled.next_delivery)
+		return schedule_gift_delivery(scheduled_id, scheduled.next_delivery);
+
+	const is_friend = await friendship_exists(scheduled.client_id, scheduled.recipient_id);
+	if (is_friend && await count_pending_gifts(scheduled.client_id, scheduled.recipient_id) >= MAX_PENDING_GIFTS_PER_RECIPIENT) {
+		// the recipient hasn't caught up on their gifts, try again later without using up a delivery
+		const next_delivery = Date.now() + GIFT_SCHEDULE_RETRY_DELAY;
+		await db_execute('UPDATE `scheduled_gifts` SET `next_delivery` = ? WHERE `id` = ?', [next_delivery, scheduled_id]);
+
+		return schedule_gift_delivery(scheduled_id, next_delivery);
+	}
+
+	const delivery = await db_transaction(async conn => {
+		const scheduled = await db_tx_get_single(conn, 'SELECT * FROM `scheduled_gifts` WHERE `id` = ? LIMIT 1 FOR UPDATE', [scheduled_id]) as db_row.scheduled_gifts;
+		if (scheduled === null)
+			return null;
+
+		const rows = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]) as db_row.scheduled_gift_items[];
+		const wrapping = { message: scheduled.message, icon_id: scheduled.icon_id };
+
+		if (!is_friend) {
+			// the friendship has ended, everything still reserved goes back to the sender
+			const items = rows.map(row => ({ id: row.item_id, qty: row.qty * scheduled.remaining }));
+			const gift_id = await create_gift(conn, scheduled.client_id, scheduled.recipient_id, items, GiftFlags.Returned, wrapping, EscrowAccount.ScheduledGift, scheduled_id);
+
+			await db_tx_execute(conn, 'DELETE FROM `scheduled_gifts` WHERE `id` = ?', [scheduled_id]);
+			await db_tx_execute(conn, 'DELETE FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]);
+
+			return { gift_id, client_id: scheduled.client_id, remaining: 0, next_delivery: 0 };
+		}
+
+		const items = rows.map(row => ({ id: row.item_id, qty: row.qty }));
+		const gift_id = await create_gift(conn, scheduled.recipient_id, scheduled.client_id, items, 0, wrapping, EscrowAccount.ScheduledGift, scheduled_id);
+
+		const remaining = scheduled.remaining - 1;
+		if (remaining <= 0) {
+			await db_tx_execute(conn, 'DELETE FROM `scheduled_gifts` WHERE `id` = ?', [scheduled_id]);
+			await db_tx_execute(conn, 'DELETE FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]);
+
+			return { gift_id, client_id: scheduled.recipient_id, remaining: 0, next_delivery: 0 };
+		}
+
+		// deliveries missed while the server was down are not caught up in a burst
+		const next_delivery = Math.max(scheduled.next_delivery + scheduled.repeat_interval, Date.now() + GIFT_SCHEDULE_MIN_INTERVAL);
+		await db_tx_execute(conn, 'UPDATE `scheduled_gifts` SET `remaining` = ?, `next_delivery` = ? WHERE `id` = ?', [remaining, next_delivery, scheduled_id]);
+
+		return { gift_id, client_id: scheduled.recipient_id, remaining, next_delivery };
+	});
+
+	if (delivery === null)
+		return;
+
+	gift_cache.get(delivery.client_id)?.push(delivery.gift_id);
+
+	if (delivery.remaining > 0)
+		schedule_gift_delivery(scheduled_id, delivery.next_delivery);
+
+	log('gift', 'delivered scheduled gift {%d} to {%d}, {%d} deliveries remaining', scheduled_id, delivery.client_id, delivery.remaining);
+}
+
+async function load_scheduled_gifts() {
+	const scheduled = await db_get_all('SELECT `id`, `next_delivery` FROM `scheduled_gifts`') as db_row.scheduled_gifts[];
+	for (const row of scheduled)
+		schedule_gift_delivery(row.id, row.next_delivery);
+
+	if (scheduled.length > 0)
+		log('gift', 'scheduled {%d} pending gift deliveries', scheduled.length);
+}
+
+load_scheduled_gifts();
+// #endregion
+
+// #region TRADE FN
+async function trade_exists(sender_id: number, recipient_id: number) {
+	return await db_exists('SELECT 1 FROM `trade_offers` WHERE `sender_id` = ? AND `recipient_id` = ? LIMIT 1', [sender_id, recipient_id]);
+}
+
+async function get_client_trades(client_id: number) {
+	const cached_entries = trade_player_cache.get(client_id);
+	if (cached_entries)
+		return cached_entries;
+
+	const result = await db_get_all('SELECT `trade_id` FROM `trade_offers` WHERE `sender_id` = ? OR `recipient_id` = ?', [client_id, client_id]) as db_row.trade_offers[];
+	const trade_ids = result.map(row => row?.trade_id) as number[];
+
+	trade_player_cache.set(client_id, trade_ids);
+
+	return trade_ids;
+}
+
+async function get_trade_offer_meta(trade_id: number) {
+	const cached = trade_cache.get(trade_id);
+	if (cached)
+		return cached;
+
+	const result = await db_get_single('SELECT `sender_id`, `attending_id`, `state`, `revision`, `sender_confirmed`, `recipient_confirmed`, `expires` FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]) as db_row.trade_offers;
+
+	if (result)
+		trade_cache.set(trade_id, result as ActiveTrade);
+
+	return result;
+}
+
+async function get_trade_offer(trade_id: number) {
+	return await db_get_single('SELECT * FROM `trade_offers` WHERE `trade_id` = ? LIMIT 1', [trade_id]) as db_row.trade_offers;
+}
+
+async function get_resolved_trade_offer(trade_id: number, client_id: number) {
+	return await db_get_single('SELECT * FROM `resolved_trade_offers` WHERE `trade_id` = ? AND `client_id` = ? LIMIT 1', [trade_id, client_id]) as db_row.resolved_trade_offers;
+}
+
+async function get_trade_items(trade_id: number) {
+	return await db_get_all('SELECT `id`, `item_id`, `qty`, `counter` FROM `trade_items` WHERE `trade_id` = ?', [trade_id]) as db_row.gift_items[];
+}
+
+async function get_resolved_trade_items(trade: db_row.resolved_trade_offers) {
+	return await db_get_all('SELECT `id`, `item_id`, `qty`, `counter` FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade.trade_id, trade.counter]) as db_row.gift_items[];
+}
+
+async function create_resolved_trade(conn: PoolConnection, trade_id: number, client_id: number, sender_id: number, declined: boolean, counter: number) {
+	// resolves the items on one side of the trade (counter) to the given client, the
+	// items remain escrowed under the trade until the client collects them
+	const items = await db_tx_get_all(conn, 'SELECT 1 FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ? LIMIT 1', [trade_id, counter]);
+	if (items.length === 0)
+		return false;
+
+	await db_tx_execute(conn,
+		'INSERT INTO `resolved_trade_offers` (trade_id, client_id, sender_id, declined, counter) VALUES(?, ?, ?, ?, ?)',
+		[trade_id, client_id, sender_id, declined ? 1 : 0, counter]
+	);
+
+	return true;
+}
+
+async function get_client_resolved_trades(client_id: number) {
+	const cached_entries = resolved_trade_cache.get(client_id);
+	if (cached_entries)
+		return cached_entries;
+
+	const result = await db_get_all('SELECT `trade_id` FROM `resolved_trade_offers` WHERE `client_id` = ?', [client_id]) as db_row.resolved_trade_offers[];
+	const trade_ids = result.map(row => row?.trade_id) as number[];
+
+	resolved_trade_cache.set(client_id, trade_ids);
+
+	return trade_ids;
+}
+
+function get_trade_counter(trade: db_row.trade_offers, client_id: number) {
+	// items added by the sender are stored with counter 0, items added by the recipient with counter 1
+	return trade.sender_id === client_id ? 0 : 1;
+}
+
+function remove_trade_offer_cache(trade: db_row.trade_offers) {
+	trade_cache.delete(trade.trade_id);
+
+	remove_player_cache_entry(trade_player_cache, trade.sender_id, trade.trade_id);
+	remove_player_cache_entry(trade_player_cache, trade.recipient_id, trade.trade_id);
+}
+
+async function cancel_trade_offer(trade: db_row.trade_offers, client_id: number, is_expired = false) {
+	// the cancelling player takes their own items back, the other player is
+	// given a declined trade containing whatever items they had put forward
+	const counter = get_trade_counter(trade, client_id);
+	const other_id = counter === 0 ? trade.recipient_id : trade.sender_id;
+
+	const cancellation = await db_transaction(async conn => {
+		const locked = await db_tx_get_single(conn, 'SELECT 1 FROM `trade_offers` WHERE `trade_id` = ? LIMIT 1 FOR UPDATE', [trade.trade_id]);
+		if (locked === null)
+			return null;
+
+		await db_tx_execute(conn, 'DELETE FROM `trade_offers` WHERE `trade_id` = ?', [trade.trade_id]);
+
+		let items: db_row.gift_items[] = [];
+		let self_resolved = false;
+
+		if (is_expired) {
+			// expired trades have nobody to hand the items back to, so both sides are resolved
+			self_resolved = await create_resolved_trade(conn, trade.trade_id, client_id, other_id, true, counter);
+		} else {
+			items = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade.trade_id, counter]) as db_row.gift_items[];
+			for (const item of items)
+				await escrow_transfer(conn, item.item_id, item.qty, get_trade_escrow_account(counter), trade.trade_id, EscrowAccount.Client, client_id);
+
+			await db_tx_execute(conn, 'DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade.trade_id, counter]);
+		}
+
+		const other_resolved = await create_resolved_trade(conn, trade.trade_id, other_id, client_id, true, 1 - counter);
+
+		return { items, self_resolved, other_resolved };
+	});
+
+	if (cancellation === null)
+		return null;
+
+	remove_trade_offer_cache(trade);
+
+	if (cancellation.self_resolved)
+		resolved_trade_cache.get(client_id)?.push(trade.trade_id);
+
+	if (cancellation.other_resolved)
+		resolved_trade_cache.get(other_id)?.push(trade.trade_id);
+
+	return cancellation.items;
+}
+// #endregion
+
+// #region SESSIONS
+async function generate_session_token(client_id: number): Promise<string> {
+	await db_execute('DELETE FROM `client_sessions` WHERE `client_id` = ?', [client_id]);
+
+	const session_token = crypto.randomUUID();
+	await db_execute('INSERT INTO `client_sessions` (`session_token`, `client_id`) VALUES(?, ?)', [session_token, client_id]);
+
+	return session_token;
+}
+
+async function get_session_client_id(session_token: unknown): Promise<number> {
+	if (typeof session_token !== 'string')
+		return -1;
+
+	const cached_session = client_session_cache.get(session_token);
+	if (cached_session !== undefined) {		
+		cached_session.last_access = Date.now();
+		return cached_session.client_id;
+	}
+
+	const session_row = await db_get_single('SELECT `client_id` FROM `client_sessions` WHERE `session_token` = ?', [session_token]) as db_row.client_sessions;
+	const client_id = session_row?.client_id ?? -1;
+
+	if (client_id > -1) {
+		client_session_cache.set(session_token, {
+			client_id,
+			last_access: Date.now()
+		});
+	}
+
+	return client_id;
+}
+
+function validate_session_request(handler: SessionRequestHandler, json_body: boolean = false) {
+	return async (req: Request, url: URL) => {
+		let json = null;
+
+		if (json_body) {
+			// validate content type header
+			if (req.headers.get('Content-Type') !== 'application/json')
+				return 400; // Bad Request
+
+			json = await req.json();
+
+			// validate json is a plain object
+			if (json === null || typeof json !== 'object' || Array.isArray(json))
+				return 400; // Bad Request
+		}
+
+		const x_session_token = req.headers.get('X-Session-Token');
+		const client_id = await get_session_client_id(x_session_token);
+
+		if (client_id === -1)
+			return 401; // Unauthorized
+
+		return handler(req, url, client_id, json as JsonObject);
+	};
+}
+
+function session_get_route(route: string, handler: SessionRequestHandler) {
+	server.route(route, validate_session_request(handler), 'GET');
+}
+
+function session_post_route(route: string, handler: SessionRequestHandler) {
+	server.route(route, validate_session_request(handler, true), 'POST');
+}
+// #endregion
+
+// #region ROUTES MARKET
+session_post_route('/api/market/sell', async (req, url, client_id, json) => {
+	const item_qty = to_safe_int(json.item_qty);
+	const item_sell_price = to_safe_int(json.item_sell_price);
+
+	if (item_qty === null || item_sell_price === null)
+		return 400; // Bad Request
+
+	if (item_qty <= 0)
+		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_NOTHING' };
+
+	if (item_sell_price <= 0)
+		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_FREE' };
+
+	const item_id = json.item_id;
+	if (typeof item_id !== 'string')
+		return 400; // Bad Request
+
+	if (is_modded_item(item_id))
+		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_MODDED' };
+
+	if (!is_known_item(item_id))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
+	const listing_fee = get_market_listing_fee(item_qty, item_sell_price);
+	if (!Number.isSafeInteger(listing_fee))
+		return 400; // Bad Request
+
+	if (await market_list_item(client_id, item_id, item_qty, item_sell_price, listing_fee) === null)
+		return 500; // Internal Server Error
+
+	return { success: true, gp_loss: listing_fee } as JsonSerializable;
+});
+
+session_post_route('/api/market/buy', async (req, url, client_id, json) => {
+	const lot_id = json.id;
+	if (typeof lot_id !== 'number')
+		return 400; // Bad Request
+
+	const buy_qty = to_safe_int(json.qty);
+	if (buy_qty === null || buy_qty <= 0)
+		return 400; // Bad Request
+
+	const purchase = await market_buy_lot(client_id, lot_id, buy_qty);
+	if (purchase === null)
+		return 500; // Internal Server Error
+
+	if (purchase.error_lang !== undefined)
+		return { error_lang: purchase.error_lang };
+
+	return {
+		success: true,
+		item_id: purchase.item_id,
+		item_qty: purchase.item_qty,
+		gp_loss: purchase.gp_loss,
+		new_item_qty: purchase.new_item_qty
+	} as JsonSerializable;
+});
+
+session_get_route('/api/market/listings', async (req, url, client_id) => {
+	const results = await db_get_all('SELECT * FROM `market_items` WHERE `client_id` = ?', [client_id]);
+	const items = Array(results.length);
+
+	for (let i = 0; i < results.length; i++) {
+		const row = results[i] as db_row.market_items;
+
+		items[i] = {
+			id: row.id,
+			item_id: row.item_id,
+			available: row.available,
+			qty: row.qty,
+			price: row.price,
+			payout: row.payout,
+			expires: row.listed + MARKET_LISTING_LIFETIME
+		};
+	}
+
+	return {
+		success: true,
+		items
+	};
+});
+
+session_post_route('/api/market/payout', async (req, url, client_id, json) => {
+	const lot_id = json.id;
+	if (typeof lot_id !== 'number')
+		return 400; // Bad Request
+
+	const payout = await market_payout_lot(client_id, lot_id);
+	if (payout === null)
+		return 400; // Bad Request
+
+	return { success: true, ...payout };
+});
+
+session_post_route('/api/market/cancel', async (req, url, client_id, json) => {
+	const lot_id = json.id;
+	if (typeof lot_id !== 'number')
+		return 400; // Bad Request
+
+	const payout = await market_cancel_lot(client_id, lot_id);
+	if (payout === null)
+		return 400; // Bad Request
+
+	return { success: true, ...payout };
+});
+
+session_post_route('/api/market/payout_all', async (req, url, client_id) => {
+	const lots = await db_get_all('SELECT `id` FROM `market_items` WHERE `client_id` = ? AND (`qty` - `available`) * `price` > `payout`', [client_id]) as db_row.market_items[];
+	const results = [];
+
+	let total_payout = 0;
+	for (const lot of lots) {
+		const payout = await market_payout_lot(client_id, lot.id);
+		if (payout === null)
+			continue;
+
+		total_payout += payout.payout;
+		results.push({ id: lot.id, ...payout });
+	}
+
+	return { success: true, payout: total_payout, results };
+});
+
+session_post_route('/api/market/cancel_bulk', async (req, url, client_id, json) => {
+	const lot_ids = json.ids;
+	if (!Array.isArray(lot_ids) || lot_ids.length > MARKET_BULK_MAX_LOTS)
+		return 400; // Bad Request
+
+	for (const lot_id of lot_ids)
+		if (typeof lot_id !== 'number')
+			return 400; // Bad Request
+
+	const results = [];
+
+	let total_payout = 0;
+	for (const lot_id of lot_ids as number[]) {
+		const payout = await market_cancel_lot(client_id, lot_id);
+		if (payout === null) {
+			results.push({ id: lot_id, success: false });
+			continue;
+		}
+
+		total_payout += payout.payout;
+		results.push({ id: lot_id, success: true, ...payout });
+	}
+
+	return { success: true, payout: total_payout, results };
+});
+
+session_post_route('/api/market/buy_sweep', async (req, url, client_id, json) => {
+	const item_id = json.item_id;
+	if (typeof item_id !== 'string')
+		return 400; // Bad Request
+
+	const buy_qty = to_safe_int(json.qty);
+	if (buy_qty === null || buy_qty <= 0)
+		return 400; // Bad Request
+
+	const max_price = json.max_price;
+	if (max_price !== undefined && typeof max_price !== 'number')
+		return 400; // Bad Request
+
+	const lots = await db_get_all(
+		'SELECT `id` FROM `market_items` WHERE `item_id` = ? AND `client_id` != ? AND `available` > 0 AND `price` <= ? ORDER BY `price` ASC, `id` ASC LIMIT ' + MARKET_BULK_MAX_LOTS,
+		[item_id, client_id, max_price ?? Number.MAX_SAFE_INTEGER]
+	) as db_row.market_items[];
+
+	const results = [];
+
+	let remaining = buy_qty;
+	let total_qty = 0;
+	let total_cost = 0;
+
+	for (const lot of lots) {
+		if (remaining <= 0)
+			break;
+
+		const purchase = await market_buy_lot(client_id, lot.id, remaining);
+		if (purchase === null || purchase.error_lang !== undefined) {
+			results.push({ id: lot.id, success: false, error_lang: purchase?.error_lang ?? 'MOD_KMM_MARKET_BUY_ERROR' });
+			continue;
+		}
+
+		remaining -= purchase.item_qty;
+		total_qty += purchase.item_qty;
+		total_cost += purchase.gp_loss;
+
+		results.push({ id: lot.id, success: true, item_qty: purchase.item_qty, gp_loss: purchase.gp_loss, price: purchase.price });
+	}
+
+	return {
+		success: true,
+		item_id,
+		item_qty: total_qty,
+		gp_loss: total_cost,
+		results
+	} as JsonSerializable;
+});
+
+session_post_route('/api/market/update', async (req, url, client_id, json) => {
+	const lot_id = json.id;
+	if (typeof lot_id !== 'number')
+		return 400; // Bad Request
+
+	const new_price = json.price as number | undefined;
+	if (new_price !== undefined && !Number.isSafeInteger(new_price))
+		return 400; // Bad Request
+
+	const withdraw_qty = json.withdraw_qty === undefined ? undefined : to_safe_int(json.withdraw_qty);
+	if (withdraw_qty === null || (withdraw_qty !== undefined && withdraw_qty <= 0))
+		return 400; // Bad Request
+
+	if (new_price === undefined && withdraw_qty === undefined)
+		return 400; // Bad Request
+
+	if (new_price !== undefined && new_price <= 0)
+		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_FREE' };
+
+	const update = await db_transaction(async conn => {
+		const lot = await db_tx_get_single(conn, 'SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1 FOR UPDATE', [lot_id]) as db_row.market_items;
+		if (lot?.client_id !== client_id)
+			return null;
+
+		// only unsold stock is repriced, checked before anything is withdrawn
+		if (new_price !== undefined && new_price !== lot.price && lot.available - (withdraw_qty ?? 0) <= 0)
+			return { error_lang: 'MOD_KMM_MARKET_NOTHING_TO_REPRICE' };
+
+		let withdrawn = 0;
+		if (withdraw_qty !== undefined) {
+			withdrawn = Math.min(withdraw_qty, lot.available);
+			lot.qty -= withdrawn;
+			lot.available -= withdrawn;
+
+			await escrow_transfer(conn, lot.item_id, withdrawn, EscrowAccount.MarketLot, lot.id, EscrowAccount.Client, client_id);
+		}
+
+		let payout = 0;
+		let tax = 0;
+
+		if (new_price !== undefined && new_price !== lot.price && lot.available > 0) {
+			// profit from items already sold is paid out at the old price, the lot then continues with the remaining stock
+			const payout_available = ((lot.qty - lot.available) * lot.price) - lot.payout;
+			tax = get_market_tax(payout_available);
+			payout = payout_available - tax;
+
+			await market_collect_tax(conn, client_id, 'update', tax);
+
+			lot.qty = lot.available;
+			lot.payout = 0;
+			lot.price = new_price;
+
+			// same-item, same-price lots are merged, matching market_list_item
+			const existing = await db_tx_get_single(conn,
+				'SELECT `id` FROM `market_items` WHERE `client_id` = ? AND `item_id` = ? AND `price` = ? AND `id` != ? LIMIT 1 FOR UPDATE',
+				[client_id, lot.item_id, lot.price, lot.id]
+			) as db_row.market_items;
+
+			if (existing !== null) {
+				// merging stock into an existing listing renews it
+				await db_tx_execute(conn, 'UPDATE `market_items` SET `qty` = `qty` + ?, `available` = `available` + ?, `listed` = ? WHERE `id` = ? LIMIT 1', [lot.available, lot.available, Date.now(), existing.id]);
+				await db_tx_execute(conn, 'DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
+				await escrow_transfer(conn, lot.item_id, lot.available, EscrowAccount.MarketLot, lot.id, EscrowAccount.MarketLot, existing.id);
+
+				return { lot, withdrawn, payout, tax, result_id: existing.id, ended: true };
+			}
+		}
+
+		// nothing sold and nothing left, the lot has no reason to exist
+		if (lot.qty === 0) {
+			await db_tx_execute(conn, 'DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
+			return { lot, withdrawn, payout, tax, result_id: -1, ended: true };
+		}
+
+		await db_tx_execute(conn,
+			'UPDATE `market_items` SET `qty` = ?, `available` = ?, `price` = ?, `payout` = ? WHERE `id` = ? LIMIT 1',
+			[lot.qty, lot.available, lot.price, lot.payout, lot.id]
+		);
+
+		return { lot, withdrawn, payout, tax, result_id: lot.id, ended: false };
+	});
+
+	if (update === null)
+		return 400; // Bad Request
+
+	if (update.error_lang !== undefined)
+		return { error_lang: update.error_lang };
+
+	const { lot, withdrawn, payout, tax, result_id, ended } = update;
+	if (ended)
+		remove_player_cache_entry(market_completed_cached, client_id, lot.id);
+	else if (lot.available === 0 && !market_completed_cached.get(client_id)?.includes(lot.id))
+		market_completed_cached.get(client_id)?.push(lot.id);
+
+	// a merged lot has stock again, so it is no longer completed
+	if (result_id !== -1 && result_id !== lot.id)
+		remove_player_cache_entry(market_completed_cached, client_id, result_id);
+
+	// a new price may now match standing buy orders
+	if (result_id !== -1) {
+		const result_lot = await db_get_single('SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1', [result_id]) as db_row.market_items;
+		if (result_lot !== null && result_lot.available > 0)
+			await market_fill_lot(result_lot);
+	}
+
+	return {
+		success: true,
+		id: result_id,
+		item_id: lot.item_id,
+		item_qty: withdrawn,
+		payout,
+		tax,
+		ended
+	} as JsonSerializable;
+});
+
+session_post_route('/api/market/order', async (req, url, client_id, json) => {
+	const item_qty = json.item_qty as number;
+	const item_buy_price = json.item_buy_price as number;
+
+	// orders hold a row until filled, so partial quantities and prices are rejected rather than floored
+	if (!Number.isSafeInteger(item_qty) || !Number.isSafeInteger(item_buy_price))
+		return 400; // Bad Request
+
+	if (item_qty <= 0)
+		return { error_lang: 'MOD_KMM_MARKET_ORDER_NOTHING' };
+
+	if (item_buy_price <= 0)
+		return { error_lang: 'MOD_KMM_MARKET_ORDER_FREE' };
+
+	const item_id = json.item_id;
+	if (typeof item_id !== 'string')
+		return 400; // Bad Request
+
+	if (is_modded_item(item_id))
+		return { error_lang: 'MOD_KMM_MARKET_CANNOT_SELL_MODDED' };
+
+	if (!is_known_item(item_id))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
+	const order_cost = item_qty * item_buy_price;
+	if (!Number.isSafeInteger(order_cost))
+		return 400; // Bad Request
+
+	// the client pays for the full order up front (gp_loss), unfilled gp is refunded on claim or cancel
+	const order_id = await db_insert(
+		'INSERT INTO `market_orders` (`client_id`, `item_id`, `qty`, `price`) VALUES(?, ?, ?, ?)',
+		[client_id, item_id, item_qty, item_buy_price]
+	);
+
+	await market_fill_order({ id: order_id, client_id, item_id, qty: item_qty, filled: 0, claimed: 0, price: item_buy_price, refund: 0 });
+
+	return { success: true, order_id, gp_loss: order_cost } as JsonSerializable;
+});
+
+session_get_route('/api/market/orders', async (req, url, client_id) => {
+	const results = await db_get_all('SELECT * FROM `market_orders` WHERE `client_id` = ?', [client_id]) as db_row.market_orders[];
+	const orders = results.map(row => ({
+		id: row.id,
+		item_id: row.item_id,
+		qty: row.qty,
+		filled: row.filled,
+		claimed: row.claimed,
+		price: row.price
+	}));
+
+	return {
+		success: true,
+		orders
+	};
+});
+
+session_post_route('/api/market/order_payout', async (req, url, client_id, json) => {
+	const order_id = json.id;
+	if (typeof order_id !== 'number')
+		return 400; // Bad Request
+
+	const payout = await db_transaction(async conn => {
+		const order = await db_tx_get_single(conn, 'SELECT * FROM `market_orders` WHERE `id` = ? LIMIT 1 FOR UPDATE', [order_id]) as db_row.market_orders;
+		if (order?.client_id !== client_id)
+			return null;
+
+		const item_qty = order.filled - order.claimed;
+		const ended = order.filled >= order.qty;
+
+		if (ended)
+			await db_tx_execute(conn, 'DELETE FROM `market_orders` WHERE `id` = ? LIMIT 1', [order.id]);
+		else
+			await db_tx_execute(conn, 'UPDATE `market_orders` SET `claimed` = `claimed` + ?, `refund` = 0 WHERE `id` = ? LIMIT 1', [item_qty, order.id]);
+
+		// price difference for filled items is returned to the client as gp_refund
+		await escrow_transfer(conn, order.item_id, item_qty, EscrowAccount.MarketOrder, order.id, EscrowAccount.Client, client_id);
+
+		return { item_id: order.item_id, item_qty, gp_refund: order.refund, ended };
+	});
+
+	if (payout === null)
+		return 400; // Bad Request
+
+	remove_player_cache_entry(market_orders_filled_cached, client_id, order_id);
+
+	return { success: true, ...payout };
+});
+
+session_post_route('/api/market/order_cancel', async (req, url, client_id, json) => {
+	const order_id = json.id;
+	if (typeof order_id !== 'number')
+		return 400; // Bad Request
+
+	const cancellation = await db_transaction(async conn => {
+		const order = await db_tx_get_single(conn, 'SELECT * FROM `market_orders` WHERE `id` = ? LIMIT 1 FOR UPDATE', [order_id]) as db_row.market_orders;
+		if (order?.client_id !== client_id)
+			return null;
+
+		const item_qty = order.filled - order.claimed;
+		const gp_refund = ((order.qty - order.filled) * order.price) + order.refund;
+
+		await db_tx_execute(conn, 'DELETE FROM `market_orders` WHERE `id` = ? LIMIT 1', [order.id]);
+		await escrow_transfer(conn, order.item_id, item_qty, EscrowAccount.MarketOrder, order.id, EscrowAccount.Client, client_id);
+
+		return { item_id: order.item_id, item_qty, gp_refund };
+	});
+
+	if (cancellation === null)
+		return 400; // Bad Request
+
+	remove_player_cache_entry(market_orders_filled_cached, client_id, order_id);
+
+	return { success: true, ...cancellation };
+});
+
+session_get_route('/api/market/rates', async (req, url, client_id) => {
+	const collected = await db_get_single('SELECT SUM(`amount`) AS `total` FROM `market_tax`');
+
+	return {
+		success: true,
+		sales_tax: MARKET_SALES_TAX,
+		listing_fee: MARKET_LISTING_FEE,
+		collected: Number(collected?.total ?? 0)
+	};
+});
+
+session_post_route('/api/market/seller', async (req, url, client_id, json) => {
+	let seller_id = -1;
+
+	if (typeof json.friend_code === 'string') {
+		if (!is_valid_friend_code(json.friend_code))
+			return { error_lang: 'MOD_KMM_INVALID_FRIEND_CODE_ERR' };
+
+		seller_id = await get_user_id_from_friend_code(json.friend_code);
+	} else if (typeof json.client_id === 'number') {
+		// client ids are only looked up for the caller or sellers with lots visible in search
+		if (json.client_id === client_id || await db_exists('SELECT 1 FROM `market_items` WHERE `client_id` = ? AND `available` > 0 LIMIT 1', [json.client_id]))
+			seller_id = json.client_id;
+	} else {
+		return 400; // Bad Request
+	}
+
+	if (seller_id === -1)
+		return { error_lang: 'MOD_KMM_UNKNOWN_FRIEND_CODE_ERR' };
+
+	const results = await db_get_all('SELECT * FROM `market_items` WHERE `client_id` = ? AND `available` > 0 ORDER BY `item_id` ASC, `price` ASC', [seller_id]) as db_row.market_items[];
+	const items = results.map(row => ({
+		id: row.id,
+		item_id: row.item_id,
+		available: row.available,
+		price: row.price
+	}));
+
+	return {
+		success: true,
+		seller: await get_client_display(seller_id),
+		stats: await get_market_seller_stats(seller_id),
+		items
+	} as JsonSerializable;
+});
+
+session_post_route('/api/market/history', async (req, url, client_id, json) => {
+	const item_id = json.item_id;
+	if (typeof item_id !== 'string')
+		return 400; // Bad Request
+
+	let days = MARKET_HISTORY_DEFAULT_DAYS;
+	const requested_days = to_safe_int(json.days);
+	if (requested_days !== null)
+		days = Math.min(Math.max(requested_days, 1), MARKET_HISTORY_MAX_DAYS);
+
+	return {
+		success: true,
+		item_id,
+		days,
+		...await get_market_history(item_id, days)
+	};
+});
+
+session_post_route('/api/market/search', async (req, url, client_id, json) => {
+	const filters = ['`client_id` != ?', '`available` > 0'];
+	const query_parameters: Array<unknown> = [client_id];
+
+	if (typeof json.item_id === 'string') {
+		filters.push('`item_id` = ?');
+		query_parameters.push(json.item_id);
+	}
+
+	if (json.item_ids !== undefined) {
+		const item_ids = json.item_ids;
+		if (!Array.isArray(item_ids) || item_ids.length === 0 || item_ids.length > MARKET_SEARCH_MAX_ITEM_IDS)
+			return 400; // Bad Request
+
+		for (const item_id of item_ids)
+			if (typeof item_id !== 'string')
+				return 400; // Bad Request
+
+		filters.push('`item_id` IN (' + item_ids.map(() => '?').join(', ') + ')');
+		query_parameters.push(...item_ids);
+	}
+
+	if (json.category !== undefined) {
+		if (typeof json.category !== 'string')
+			return 400; // Bad Request
+
+		const category_item_ids = [...item_catalogue.values()].filter(item => item.category === json.category).map(item => item.id);
+		if (category_item_ids.length === 0)
+			return { success: true, total_items: 0, items: [] };
+
+		filters.push('`item_id` IN (' + category_item_ids.map(() => '?').join(', ') + ')');
+		query_parameters.push(...category_item_ids);
+	}
+
+	if (json.namespace !== undefined) {
+		if (typeof json.namespace !== 'string')
+			return 400; // Bad Request
+
+		filters.push('`item_id` LIKE ?');
+		query_parameters.push(json.namespace.replace(/[\\%_]/g, '\\$&') + ':%');
+	}
+
+	for (const [key, filter] of [['min_price', '`price` >= ?'], ['max_price', '`price` <= ?'], ['min_qty', '`available` >= ?']]) {
+		const value = json[key];
+		if (value === undefined)
+			continue;
+
+		if (typeof value !== 'number')
+			return 400; // Bad Request
+
+		filters.push(filter);
+		query_parameters.push(value);
+	}
+
+	if (json.seller !== undefined) {
+		if (typeof json.seller !== 'string' || !is_valid_friend_code(json.seller))
+			return { error_lang: 'MOD_KMM_INVALID_FRIEND_CODE_ERR' };
+
+		const seller_id = await get_user_id_from_friend_code(json.seller);
+		if (seller_id === -1)
+			return { error_lang: 'MOD_KMM_UNKNOWN_FRIEND_CODE_ERR' };
+
+		filters.push('`client_id` = ?');
+		query_parameters.push(seller_id);
+	}
+
+	if (json.friends_only === true) {
+		filters.push('`client_id` IN (SELECT IF(`client_id_a` = ?, `client_id_b`, `client_id_a`) FROM `friends` WHERE `client_id_a` = ? OR `client_id_b` = ?)');
+		query_parameters.push(client_id, client_id, client_id);
+	}
+
+	const sort_column = MARKET_SORT_COLUMNS[typeof json.sort_by === 'string' ? json.sort_by : 'price'];
+	if (sort_column === undefined)
+		return 400; // Bad Request
+
+	const sort = json.sort === 0 ? 'DESC' : 'ASC';
+
+	let per_page = MARKET_ITEMS_PER_PAGE;
+	const requested_per_page = to_safe_int(json.per_page);
+	if (requested_per_page !== null)
+		per_page = Math.min(Math.max(requested_per_page, 1), MARKET_ITEMS_PER_PAGE_MAX);
+
+	const page = to_safe_int(json.page);
+	const page_offset = page !== null ? Math.max(page - 1, 0) * per_page : 0;
+
+	// note: LIMIT/OFFSET are passed as strings, mysqld_stmt_execute rejects numeric values for them
+	query_parameters.push(String(per_page), String(page_offset));
+
+	const result = await db_get_all(
+		'SELECT *, COUNT(*) OVER() as `total_items` FROM `market_items` WHERE ' + filters.join(' AND ') + ' ORDER BY ' + sort_column + ' ' + sort + ', `id` ASC LIMIT ? OFFSET ?',
+		query_parameters
+	);
+
+	const total_items = result[0]?.total_items ?? 0;
+
+	const items = Array(result.length);
+	for (let i = 0; i < result.length; i++) {
+		const row = result[i] as db_row.market_items;
+
+		items[i] = {
+			id: row.id,
+			item_id: row.item_id,
+			available: row.available,
+			price: row.price,
+			seller: await get_client_display(row.client_id)
+		};
+	}
+
+	return {
+		success: true,
+		total_items,
+		items
+	} as JsonSerializable;
+});
+// #endregion
+
+// #region ROUTES CAMPAIGN
+session_get_route('/api/campaign/info', async (req, url, client_id) => {
+	const rankings = await get_campaign_rankings(client_id);
+	const failures = await get_campaign_rankings(client_id, CampaignOutcome.Failed);
+	const history = await get_campaign_history(client_id, rankings);
+
+	const primary = get_primary_campaign();
+	let primary_info = {};
+
+	const campaigns = [];
+	for (const campaign of active_campaigns.values()) {
+		const info = await get_campaign_info(campaign, client_id);
+		if (campaign === primary)
+			primary_info = info;
+
+		campaigns.push(info);
+	}
+
+	// top-level fields describe the primary campaign, for clients unaware of multiple campaigns
+	return {
+		...primary_info,
+		history, rankings, failures,
+		campaigns
+	} as JsonSerializable;
+});
+
+session_post_route('/api/campaign/history', async (req, url, client_id, json) => {
+	const page = json.page ?? 0;
+	if (typeof page !== 'number' || !Number.isInteger(page) || page < 0)
+		return 400; // Bad Request
+
+	const per_page = json.per_page ?? CAMPAIGN_HISTORY_PER_PAGE;
+	if (typeof per_page !== 'number' || !Number.isInteger(per_page) || per_page <= 0 || per_page > CAMPAIGN_HISTORY_PER_PAGE_MAX)
+		return 400; // Bad Request
+
+	const rankings = await get_campaign_rankings(client_id);
+	const history = await get_campaign_history(client_id, rankings, page, per_page);
+	const total = await db_count('SELECT COUNT(*) AS `count` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND b.`complete` = 1', [client_id]);
+
+	return {
+		history,
+		page,
+		pages: Math.ceil(total / per_page),
+		total
+	} as JsonSerializable;
+});
+
+session_post_route('/api/campaign/details', async (req, url, client_id, json) => {
+	const campaign_state_id = json.id;
+	if (typeof campaign_state_id !== 'number')
+		return 400; // Bad Request
+
+	const details = await get_campaign_details(campaign_state_id, client_id);
+	if (details === null)
+		return 400; // Bad Request
+
+	return details as JsonSerializable;
+});
+
+session_get_route('/api/campaign/milestones', async (req, url, client_id) => {
+	const milestones = await db_get_all(
+		'SELECT a.`id`, a.`campaign_id` AS `campaign_state_id`, b.`campaign_id`, a.`pct`, a.`reward`, a.`timestamp` FROM `campaign_milestones` AS a JOIN `campaign_state` AS b ON b.`id` = a.`campaign_id` WHERE a.`client_id` = ? AND a.`claimed` = 0 ORDER BY a.`id` ASC',
+		[client_id]
+	);
+
+	return { milestones } as JsonSerializable;
+});
+
+session_post_route('/api/campaign/milestone_claim', async (req, url, client_id, json) => {
+	const milestone_id = json.id;
+	if (typeof milestone_id !== 'number')
+		return 400; // Bad Request
+
+	const milestone = await db_transaction(async conn => {
+		const milestone = await db_tx_get_single(conn, 'SELECT `reward`, `pct` FROM `campaign_milestones` WHERE `id` = ? AND `client_id` = ? AND `claimed` = 0 FOR UPDATE', [milestone_id, client_id]);
+		if (milestone === null)
+			return null;
+
+		await db_tx_execute(conn, 'UPDATE `campaign_milestones` SET `claimed` = 1 WHERE `id` = ?', [milestone_id]);
+		return milestone;
+	});
+
+	if (milestone === null)
+		return 400; // Bad Request
+
+	remove_player_cache_entry(campaign_milestones_cached, client_id, milestone_id);
+
+	return { success: true, reward: milestone.reward, pct: milestone.pct };
+});
+
+session_post_route('/api/campaign/claim', async (req, url, client_id, json) => {
+	const campaign_id = json.campaign_id;
+	if (typeof campaign_id !== 'number')
+		return 400; // Bad Request
+
+	// rewards are computed by the server, clients do not get a say
+	if (json.value !== undefined)
+		return 400; // Bad Request
+
+	const rankings = await get_campaign_rankings(client_id);
+	const reward = await db_transaction(async conn => {
+		const contribution = await db_tx_get_single(conn,
+			'SELECT a.`taken`, a.`placement`, b.`campaign_id`, b.`progress` FROM `campaign_contributions` AS a JOIN `campaign_state` AS b ON a.`campaign_id` = b.`id` WHERE a.`client_id` = ? AND a.`campaign_id` = ? AND b.`complete` = 1 LIMIT 1 FOR UPDATE',
+			[client_id, campaign_id]
+		);
+
+		if (contribution === null || contribution.taken > 0)
+			return null;
+
+		const stage_contributions = await db_tx_get_all(conn,
+			'SELECT a.`item_amount`, b.`item_id` FROM `campaign_stage_contributions` AS a JOIN `campaign_stages` AS b ON b.`campaign_id` = a.`campaign_id` AND b.`stage` = a.`stage` WHERE a.`client_id` = ? AND a.`campaign_id` = ?',
+			[client_id, campaign_id]
+		) as CampaignStageContribution[];
 
-session_post_route('/api/market/payout', async (req, url, client_id, json) => {
-	const lot_id = json.id;
-	if (typeof lot_id !== 'number')
-		return 400; // Bad Request
+		const reward_value = get_campaign_reward(contribution.campaign_id, stage_contributions, contribution.placement, contribution.progress, rankings);
+		// taken doubles as the claimed flag, so it cannot be zero once claimed
+		await db_tx_execute(conn, 'UPDATE `campaign_contributions` SET `taken` = ? WHERE `client_id` = ? AND `campaign_id` = ?', [Math.max(reward_value, 1), client_id, campaign_id]);
 
-	const lot = await db_get_single('SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1', [lot_id]) as db_row.market_items;
-	if (lot?.client_id !== client_id)
+		return reward_value;
+	});
+
+	if (reward === null)
 		return 400; // Bad Request
 
-	const lot_profit = (lot.qty - lot.available) * lot.price;
-	const payout_available = lot_profit - lot.payout;
-	let ended = false;
+	return { success: true, reward };
+});
 
-	if (lot.available === 0) {
-		ended = true;
-		await db_execute('DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
-		remove_player_cache_entry(market_completed_cached, client_id, lot.id);
-	} else {
-		await db_execute('UPDATE `market_items` SET `payout` = `payout` + ? WHERE `id` = ? LIMIT 1', [payout_available, lot.id]);
+session_post_route('/api/campaign/leaderboard', async (req, url, client_id, json) => {
+	// omitting id shows the leaderboard of the primary campaign, or the last one to finish
+	let campaign_state_id = json.id;
+	if (campaign_state_id === undefined) {
+		const primary = get_primary_campaign();
+		const latest = await db_get_single('SELECT `id` FROM `campaign_state` WHERE `slot_id` = ? ORDER BY `id` DESC LIMIT 1', [get_primary_slot().id]);
+		campaign_state_id = primary !== undefined && primary.id > 0 ? primary.id : latest?.id ?? 0;
 	}
 
-	return { success: true, payout: payout_available, ended };
-});
+	if (typeof campaign_state_id !== 'number' || campaign_state_id <= 0)
+		return 400; // Bad Request
 
-session_post_route('/api/market/cancel', async (req, url, client_id, json) => {
-	const lot_id = json.id;
-	if (typeof lot_id !== 'number')
+	const friends_only = json.friends_only ?? false;
+	if (typeof friends_only !== 'boolean')
 		return 400; // Bad Request
 
-	const lot = await db_get_single('SELECT * FROM `market_items` WHERE `id` = ? LIMIT 1', [lot_id]) as db_row.market_items;
-	if (lot?.client_id !== client_id)
+	const teams = json.teams ?? false;
+	if (typeof teams !== 'boolean')
 		return 400; // Bad Request
 
-	const lot_profit = (lot.qty - lot.available) * lot.price;
-	const payout_available = lot_profit - lot.payout;
+	const state = await db_get_single('SELECT `campaign_id`, `item_id`, `complete`, `outcome` FROM `campaign_state` WHERE `id` = ?', [campaign_state_id]) as db_row.campaign_state;
+	if (state === null)
+		return 400; // Bad Request
 
-	await db_execute('DELETE FROM `market_items` WHERE `id` = ? LIMIT 1', [lot.id]);
-	remove_player_cache_entry(market_completed_cached, client_id, lot.id);
+	const leaderboard = teams ? await get_campaign_team_leaderboard(campaign_state_id, client_id) : await get_campaign_leaderboard(campaign_state_id, client_id, friends_only);
 
-	return { success: true, payout: payout_available };
+	return {
+		id: campaign_state_id,
+		campaign_id: state.campaign_id,
+		item_id: state.item_id,
+		complete: state.complete === 1,
+		outcome: state.outcome,
+		...leaderboard
+	} as JsonSerializable;
 });
 
-session_post_route('/api/market/search', async (req, url, client_id, json) => {
-	const query_parameters: Array<unknown> = [client_id];
+session_get_route('/api/campaign/team/get', async (req, url, client_id) => {
+	const team_id = await get_client_team_id(client_id);
+	const team = team_id > 0 ? await get_campaign_team(team_id) : null;
 
-	let item_filter = '';
-	if (typeof json.item_id === 'string') {
-		item_filter = ' AND `item_id` = ?'
-		query_parameters.push(json.item_id);
-	}
+	return { team } as JsonSerializable;
+});
 
-	const sort = json.sort === 0 ? 'DESC' : 'ASC';
-	const page_offset = typeof json.page === 'number' ? ' OFFSET ' + (Math.max(json.page - 1, 0) * MARKET_ITEMS_PER_PAGE) : '';
-	const result = await db_get_all(
-		'SELECT *, COUNT(*) OVER() as `total_items` FROM `market_items` WHERE `client_id` != ? AND `available` > 0' + item_filter + ' ORDER BY `price` ' + sort + ' LIMIT ' + MARKET_ITEMS_PER_PAGE + page_offset,
-		query_parameters
-	);
+session_post_route('/api/campaign/team/create', async (req, url, client_id, json) => {
+	const name = validate_team_name(json.name);
+	if (name === null)
+		return 400; // Bad Request
 
-	const total_items = result[0]?.total_items ?? 0;
+	if (await get_client_team_id(client_id) > 0)
+		return { error_lang: 'MOD_KMM_CAMPAIGN_TEAM_ALREADY_MEMBER' };
 
-	const items = Array(result.length);
-	for (let i = 0; i < result.length; i++) {
-		const row = result[i] as db_row.market_items;
+	const team_id = await db_transaction(async conn => {
+		const team_id = await db_tx_insert(conn, 'INSERT INTO `campaign_teams` (`owner_id`, `name`, `created`) VALUES(?, ?, ?)', [client_id, name, Date.now()]);
+		await db_tx_execute(conn, 'INSERT INTO `campaign_team_members` (`client_id`, `team_id`, `joined`) VALUES(?, ?, ?)', [client_id, team_id, Date.now()]);
 
-		items[i] = {
-			id: row.id,
-			item_id: row.item_id,
-			available: row.available,
-			price: row.price,
-			seller: await get_client_display(row.client_id)
-		};
-	}
+		return team_id;
+	});
 
-	return {
-		success: true,
-		total_items,
-		items
-	};
+	if (team_id === null)
+		return 500; // Internal Server Error
+
+	log('campaign', 'client {%d} created team {%d} {%s}', client_id, team_id, name);
+	return { success: true, team_id } as JsonSerializable;
 });
-// #endregion
 
-// #region ROUTES CAMPAIGN
-session_get_route('/api/campaign/info', async (req, url, client_id) => {
-	const rankings = await get_campaign_rankings(client_id);
-	const history = await get_campaign_history(client_id);
+session_post_route('/api/campaign/team/join', async (req, url, client_id, json) => {
+	// members join a friend's team themselves, owners cannot add anyone without consent
+	const owner_id = json.owner_id;
+	if (typeof owner_id !== 'number' || owner_id === client_id)
+		return 400; // Bad Request
+
+	if (!await friendship_exists(client_id, owner_id))
+		return 400; // Bad Request
 
-	if (campaign_active_id > 0) {
-		const contribution = await db_get_single(
-			'SELECT `item_amount` FROM `campaign_contributions` WHERE `client_id` = ? AND `campaign_id` = ?',
-			[client_id, campaign_active_id]
-		) as db_row.campaign_contributions;
+	const result = await db_transaction(async conn => {
+		const team = await db_tx_get_single(conn, 'SELECT `id` FROM `campaign_teams` WHERE `owner_id` = ? FOR UPDATE', [owner_id]);
+		if (team === null)
+			return { error_lang: 'MOD_KMM_CAMPAIGN_TEAM_NOT_FOUND' };
 
-		return {
-			active: true,
-			history, rankings,
-			campaign_id: campaign_active_campaign_id,
-			contribution: contribution?.item_amount ?? 0,
-			item_id: campaign_active_item,
-			item_total: campaign_item_total
-		} as JsonSerializable;
-	} else {
-		return {
-			active: false,
-			history, rankings,
-			next_campaign: campaign_next_active_timestamp
-		} as JsonSerializable;
-	}
+		const existing = await db_tx_get_single(conn, 'SELECT 1 FROM `campaign_team_members` WHERE `client_id` = ? FOR UPDATE', [client_id]);
+		if (existing !== null)
+			return { error_lang: 'MOD_KMM_CAMPAIGN_TEAM_ALREADY_MEMBER' };
+
+		const members = await db_tx_get_single(conn, 'SELECT COUNT(*) AS `count` FROM `campaign_team_members` WHERE `team_id` = ?', [team.id]);
+		if ((members?.count ?? 0) >= CAMPAIGN_TEAM_MAX_MEMBERS)
+			return { error_lang: 'MOD_KMM_CAMPAIGN_TEAM_FULL' };
+
+		await db_tx_execute(conn, 'INSERT INTO `campaign_team_members` (`client_id`, `team_id`, `joined`) VALUES(?, ?, ?)', [client_id, team.id, Date.now()]);
+		return { team_id: team.id as number };
+	});
+
+	if (result === null)
+		return 500; // Internal Server Error
+
+	if (result.error_lang !== undefined)
+		return { error_lang: result.error_lang };
+
+	log('campaign', 'client {%d} joined team {%d}', client_id, result.team_id);
+	return { success: true, team_id: result.team_id } as JsonSerializable;
 });
 
-session_post_route('/api/campaign/claim', async (req, url, client_id, json) => {
-	const campaign_id = json.campaign_id;
-	if (typeof campaign_id !== 'number')
+session_post_route('/api/campaign/team/remove', async (req, url, client_id, json) => {
+	const member_id = json.client_id;
+	if (typeof member_id !== 'number' || member_id === client_id)
 		return 400; // Bad Request
 
-	const value = json.value;
-	if (typeof value !== 'number')
+	const team = await db_get_single('SELECT `id` FROM `campaign_teams` WHERE `owner_id` = ?', [client_id]);
+	if (team === null)
 		return 400; // Bad Request
 
-	const contribution = await db_get_single('SELECT `taken` FROM `campaign_contributions` WHERE `client_id` = ? AND `campaign_id` = ? LIMIT 1', [client_id, campaign_id]) as db_row.campaign_contributions;
-	if (contribution === null || contribution.taken > 0)
-		return 400; // Bad request
+	await db_execute('DELETE FROM `campaign_team_members` WHERE `team_id` = ? AND `client_id` = ?', [team.id, member_id]);
 
-	await db_execute('UPDATE `campaign_contributions` SET `taken` = ? WHERE `client_id` = ? AND `campaign_id` = ?', [value, client_id, campaign_id]);
+	return { success: true };
+});
+
+session_post_route('/api/campaign/team/leave', async (req, url, client_id) => {
+	const team_id = await get_client_team_id(client_id);
+	if (team_id === 0)
+		return 400; // Bad Request
+
+	// an owner leaving takes the team with them
+	const team = await db_get_single('SELECT `owner_id` FROM `campaign_teams` WHERE `id` = ?', [team_id]);
+	if (team?.owner_id === client_id)
+		await disband_campaign_team(team_id);
+	else
+		await db_execute('DELETE FROM `campaign_team_members` WHERE `client_id` = ?', [client_id]);
 
 	return { success: true };
 });
 
 session_post_route('/api/campaign/contribute', async (req, url, client_id, json) => {
-	const item_amount = json.item_amount;
-	if (typeof item_amount !== 'number')
+	const item_amount = to_safe_int(json.item_amount);
+	if (item_amount === null)
+		return 400; // Bad Request
+
+	// omitting id contributes to the primary campaign
+	const campaign_state_id = json.id;
+	if (campaign_state_id !== undefined && typeof campaign_state_id !== 'number')
 		return 400; // Bad Request
 
-	if (campaign_active_id === 0)
+	const campaign = campaign_state_id === undefined ? get_primary_campaign() : get_active_campaign(campaign_state_id);
+	if (campaign === undefined || campaign.id === 0)
 		return 400; // Bad Request
 
 	if (item_amount <= 0)
 		return 400; // Bad Request
 
-	const max_solo_contrib = campaign_item_total * CAMPAIGN_MAX_SOLO_CONTRIB_FAC;
-	let contributing_amount = Math.min(item_amount | 0, max_solo_contrib);
+	const campaign_id = campaign.id;
+	const stage_index = campaign.stage;
+	const stage = get_campaign_stage(campaign);
 
-	const contribution = await db_get_single('SELECT `item_amount` FROM `campaign_contributions` WHERE `client_id` = ? AND `campaign_id` = ?', [client_id, campaign_active_id]) as db_row.campaign_contributions;
-	if (contribution !== null) {
-		const contributing_delta = Math.max(max_solo_contrib - contribution.item_amount, 0);
-		contributing_amount = Math.min(contributing_amount, contributing_delta);
-	}
+	// clients name the item they are giving, the stage may have moved on since they last looked
+	if (json.item_id !== undefined && json.item_id !== stage.item_id)
+		return { error_lang: 'MOD_KMM_CAMPAIGN_STAGE_CHANGED' };
 
-	const remaining_needed = campaign_item_total - campaign_item_current;
-	contributing_amount = Math.round(Math.min(contributing_amount, remaining_needed));
+	// the client row is locked so concurrent contributions from one client are checked against the cap in turn
+	const contribution = await db_transaction(async conn => {
+		await db_tx_get_single(conn, 'SELECT `id` FROM `clients` WHERE `id` = ? LIMIT 1 FOR UPDATE', [client_id]);
 
-	if (contributing_amount > 0) {
-		await db_execute(
-			'INSERT INTO `campaign_contributions` (`client_id`, `campaign_id`, `item_amount`) VALUES(?, ?, ?) ON DUPLICATE KEY UPDATE `item_amount` = `item_amount` + ?',
-			[client_id, campaign_active_id, contributing_amount, contributing_amount]
-		);
+		const contribution_limit = await get_campaign_contribution_limit(conn, campaign, client_id);
+		if (campaign.id !== campaign_id)
+			return { error_lang: 'MOD_KMM_CAMPAIGN_CONTRIBUTE_ERR' };
 
-		await add_campaign_progress(contributing_amount);
-	}
+		if (campaign.stage !== stage_index)
+			return { error_lang: 'MOD_KMM_CAMPAIGN_STAGE_CHANGED' };
+
+		const remaining_needed = stage.item_total - stage.item_current;
+		const contributing_amount = Math.round(Math.min(item_amount, contribution_limit.remaining, remaining_needed));
+
+		if (contributing_amount > 0) {
+			await db_tx_execute(conn,
+				'INSERT INTO `campaign_contributions` (`client_id`, `campaign_id`, `item_amount`, `team_id`) VALUES(?, ?, ?, ?) ON DUPLICATE KEY UPDATE `item_amount` = `item_amount` + ?',
+				[client_id, campaign_id, contributing_amount, contribution_limit.team_id, contributing_amount]
+			);
+
+			await db_tx_execute(conn,
+				'INSERT INTO `campaign_stage_contributions` (`client_id`, `campaign_id`, `stage`, `item_amount`) VALUES(?, ?, ?, ?) ON DUPLICATE KEY UPDATE `item_amount` = `item_amount` + ?',
+				[client_id, campaign_id, stage_index, contributing_amount, contributing_amount]
+			);
+		}
+
+		return { contributing_amount };
+	});
+
+	if (contribution === null)
+		return 500; // Internal Server Error
+
+	if (contribution.error_lang !== undefined)
+		return { error_lang: contribution.error_lang };
+
+	const contributing_amount = contribution.contributing_amount;
+	if (contributing_amount > 0)
+		await add_campaign_progress(campaign, campaign_id, contributing_amount);
 
+	// campaign_stage differs from stage when this contribution filled the stage
 	return {
 		success: true,
-		item_id: campaign_active_item,
+		id: campaign_id,
+		stage: stage_index,
+		item_id: stage.item_id,
 		item_loss: contributing_amount,
-		campaign_pct: campaign_current_pct
-	};
+		campaign_pct: stage.item_current / stage.item_total,
+		campaign_stage: campaign.stage
+	} as JsonSerializable;
 });
 // #endregion
 
@@ -975,10 +3054,13 @@ session_post_route('/api/charity/donate', async (req, url, client_id, json) => {
 	if (!validate_item_array(items, false))
 		return 400; // Bad Request
 
+	if (!validate_item_catalogue(items, false))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
 	for (const item of items)
 		await db_execute('INSERT INTO `charity_items` (`item_id`, `qty`) VALUES(?, ?) ON DUPLICATE KEY UPDATE `qty` = `qty` + ?', [item.id, item.qty, item.qty]);
 
-	return { success: true };
+	return { success: true } as JsonSerializable;
 });
 // #endregion
 
@@ -1002,7 +3084,9 @@ session_post_route('/api/transfers/get_contents', async (req, url, client_id, js
 		gift_results[gift_id] = {
 			items: await get_gift_items(gift_id) ?? [],
 			sender: await get_client_display(gift.sender_id),
-			flags: gift.flags
+			flags: gift.flags,
+			message: gift.message,
+			icon_id: gift.icon_id
 		};
 	}
 
@@ -1025,6 +3109,8 @@ session_post_route('/api/transfers/get_contents', async (req, url, client_id, js
 
 		trade_results[trade_id] = {
 			items: await get_trade_items(trade_id) ?? [],
+			counter: get_trade_counter(trade_offer, client_id),
+			revision: trade_offer.revision,
 			other_player: await get_client_display(other_player_id)
 		};
 	}
@@ -1039,12 +3125,12 @@ session_post_route('/api/transfers/get_contents', async (req, url, client_id, js
 
 	const resolved_trade_results = {} as Record<number, object>;
 	for (const trade_id of resolved_trade_ids as number[]) {
-		const trade_offer = await get_resolved_trade_offer(trade_id);
-		if (!trade_offer || trade_offer.client_id !== client_id)
+		const trade_offer = await get_resolved_trade_offer(trade_id, client_id);
+		if (!trade_offer)
 			continue;
 
 		resolved_trade_results[trade_id] = {
-			items: await get_trade_items(trade_id) ?? [],
+			items: await get_resolved_trade_items(trade_offer),
 			declined: trade_offer.declined === 1,
 			other_player: await get_client_display(trade_offer.sender_id)
 		};
@@ -1064,101 +3150,172 @@ session_post_route('/api/trade/resolve', async (req, url, client_id, json) => {
 	if (typeof trade_id !== 'number')
 		return 400; // Bad Request
 
-	const trade = await get_resolved_trade_offer(trade_id);
-	if (!trade || trade.client_id !== client_id)
-		return 400; // Bad Request
+	const resolved = await db_transaction(async conn => {
+		const trade = await db_tx_get_single(conn, 'SELECT * FROM `resolved_trade_offers` WHERE `trade_id` = ? AND `client_id` = ? LIMIT 1 FOR UPDATE', [trade_id, client_id]) as db_row.resolved_trade_offers;
+		if (trade === null)
+			return false;
+
+		const items = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, trade.counter]) as db_row.trade_items[];
+		for (const item of items)
+			await escrow_transfer(conn, item.item_id, item.qty, get_trade_escrow_account(trade.counter), trade_id, EscrowAccount.Client, client_id);
+
+		await db_tx_execute(conn, 'DELETE FROM `resolved_trade_offers` WHERE `trade_id` = ? AND `client_id` = ?', [trade_id, client_id]);
+		await db_tx_execute(conn, 'DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, trade.counter]);
+
+		return true;
+	});
 
-	await db_execute('DELETE FROM `resolved_trade_offers` WHERE `trade_id` = ?', [trade_id]);
-	await db_execute('DELETE FROM `trade_items` WHERE `trade_id` = ?', [trade_id]);
+	if (!resolved)
+		return 400; // Bad Request
 
 	remove_player_cache_entry(resolved_trade_cache, client_id, trade_id);
 
 	return { success: true };
 });
 
-session_post_route('/api/trade/counter', async (req, url, client_id, json) => {
+session_post_route('/api/trade/revise', async (req, url, client_id, json) => {
 	const trade_id = json.trade_id;
 	if (typeof trade_id !== 'number')
 		return 400; // Bad Request
 
-	const trade = await get_trade_offer(trade_id);
-	if (!trade || trade.recipient_id !== client_id)
+	const revision = json.revision;
+	if (typeof revision !== 'number')
 		return 400; // Bad Request
 
 	const items = json.items as TransferItem[];
 	if (!validate_item_array(items))
 		return 400; // Bad Request;
 
-	for (const item of items) {
-		await db_execute(
-			'INSERT INTO `trade_items` (trade_id, item_id, qty, counter) VALUES(?, ?, ?, 1)',
-			[trade_id, item.id, item.qty]
+	if (!validate_item_catalogue(items))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
+	const trade = await get_trade_offer(trade_id);
+	if (!trade || (trade.sender_id !== client_id && trade.recipient_id !== client_id))
+		return 400; // Bad Request
+
+	const result = await db_transaction(async conn => {
+		const trade = await db_tx_get_single(conn, 'SELECT * FROM `trade_offers` WHERE `trade_id` = ? LIMIT 1 FOR UPDATE', [trade_id]) as db_row.trade_offers;
+		if (trade === null)
+			return null;
+
+		if (trade.revision !== revision || trade.attending_id !== client_id)
+			return { error_lang: 'MOD_KMM_TRADE_REVISED' };
+
+		const counter = get_trade_counter(trade, client_id);
+		const escrow_account = get_trade_escrow_account(counter);
+		const returned_items = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, counter]) as db_row.trade_items[];
+
+		for (const item of returned_items)
+			await escrow_transfer(conn, item.item_id, item.qty, escrow_account, trade_id, EscrowAccount.Client, client_id);
+
+		await db_tx_execute(conn, 'DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, counter]);
+
+		for (const item of items) {
+			await db_tx_execute(conn,
+				'INSERT INTO `trade_items` (trade_id, item_id, qty, counter) VALUES(?, ?, ?, ?)',
+				[trade_id, item.id, item.qty, counter]
+			);
+
+			await escrow_transfer(conn, item.id, item.qty, EscrowAccount.Client, client_id, escrow_account, trade_id);
+		}
+
+		// any revision resets confirmations and hands the turn to the other player
+		const other_id = counter === 0 ? trade.recipient_id : trade.sender_id;
+		await db_tx_execute(conn,
+			'UPDATE `trade_offers` SET `state` = 1, `revision` = `revision` + 1, `sender_confirmed` = 0, `recipient_confirmed` = 0, `attending_id` = ?, `expires` = ? WHERE `trade_id` = ? LIMIT 1',
+			[other_id, Date.now() + trade.ttl, trade_id]
 		);
-	}
 
-	// sender becomes the attending player
-	await db_execute('UPDATE `trade_offers` SET `state` = 1, `attending_id` = ? WHERE `trade_id` = ? LIMIT 1', [trade.sender_id, trade_id]);
+		return { items: returned_items, revision: trade.revision + 1, ttl: trade.ttl };
+	});
 
-	const cached_meta = trade_cache.get(trade_id);
-	if (cached_meta) {
-		cached_meta.attending_id = trade.sender_id;
-		cached_meta.state = 1;
-	}
+	if (result === null)
+		return 400; // Bad Request
 
-	return { success: true };
+	if (result.error_lang !== undefined)
+		return { error_lang: result.error_lang };
+
+	trade_cache.delete(trade_id);
+
+	return { success: true, items: result.items, revision: result.revision, expires_in: result.ttl } as JsonSerializable;
 });
 
-session_post_route('/api/trade/accept', async (req, url, client_id, json) => {
+session_post_route('/api/trade/confirm', async (req, url, client_id, json) => {
 	const trade_id = json.trade_id;
 	if (typeof trade_id !== 'number')
 		return 400; // Bad Request
 
-	const trade = await get_trade_offer(trade_id);
-	if (!trade || trade.state !== 1 || trade.sender_id !== client_id)
+	const revision = json.revision;
+	if (typeof revision !== 'number')
 		return 400; // Bad Request
 
-	await db_execute('DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = 1', [trade_id]);
-	await db_execute('DELETE FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]);
-	trade_cache.delete(trade_id);
+	const result = await db_transaction(async conn => {
+		const trade = await db_tx_get_single(conn, 'SELECT * FROM `trade_offers` WHERE `trade_id` = ? LIMIT 1 FOR UPDATE', [trade_id]) as db_row.trade_offers;
+		if (trade === null || (trade.sender_id !== client_id && trade.recipient_id !== client_id))
+			return null;
 
-	remove_player_cache_entry(trade_player_cache, trade.sender_id, trade_id);
-	remove_player_cache_entry(trade_player_cache, trade.recipient_id, trade_id);
+		// a fresh offer (state 0, revision 1) is confirmed the same way as a revised one,
+		// the recipient is attending it until they confirm, counter or decline
+		if (trade.revision !== revision || trade.attending_id !== client_id)
+			return { error_lang: 'MOD_KMM_TRADE_REVISED' };
 
-	await create_resolved_trade(trade_id, trade.recipient_id, trade.sender_id, false);
+		const counter = get_trade_counter(trade, client_id);
+		const other_id = counter === 0 ? trade.recipient_id : trade.sender_id;
+		const other_confirmed = counter === 0 ? trade.recipient_confirmed : trade.sender_confirmed;
 
-	return { success: true };
-});
+		if (other_confirmed !== trade.revision) {
+			const column = counter === 0 ? 'sender_confirmed' : 'recipient_confirmed';
+			await db_tx_execute(conn, 'UPDATE `trade_offers` SET `' + column + '` = ?, `attending_id` = ?, `expires` = ? WHERE `trade_id` = ? LIMIT 1', [trade.revision, other_id, Date.now() + trade.ttl, trade_id]);
 
-session_post_route('/api/trade/cancel', async (req, url, client_id, json) => {
-	const trade_id = json.trade_id;
-	if (typeof trade_id !== 'number')
-		return 400; // Bad Request
+			return { trade, other_id, complete: false, resolved: false, items: [] };
+		}
 
-	const trade = await get_trade_offer(trade_id);
-	if (!trade)
-		return 400; // Bad Request
+		// both players have confirmed this revision, the confirming player takes the
+		// other side immediately and the remaining items are resolved to the other player
+		const items = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, 1 - counter]) as db_row.trade_items[];
+		for (const item of items)
+			await escrow_transfer(conn, item.item_id, item.qty, get_trade_escrow_account(1 - counter), trade_id, EscrowAccount.Client, client_id);
 
-	if (trade.state === 0 && trade.sender_id !== client_id)
-		return 400; // Bad Request
+		await db_tx_execute(conn, 'DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, 1 - counter]);
+		await db_tx_execute(conn, 'DELETE FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]);
 
-	if (trade.state === 1 && trade.recipient_id !== client_id)
+		const resolved = await create_resolved_trade(conn, trade_id, other_id, client_id, false, counter);
+
+		return { trade, other_id, complete: true, resolved, items };
+	});
+
+	if (result === null)
 		return 400; // Bad Request
 
-	await db_execute('DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = ?', [trade_id, trade.state]);
+	if (result.error_lang !== undefined)
+		return { error_lang: result.error_lang };
+
+	if (result.complete) {
+		remove_trade_offer_cache(result.trade);
 
-	if (trade.state === 1) {
-		await db_execute('DELETE FROM `trade_items` WHERE `trade_id` = ? AND `counter` = 1', [trade_id]);
-		await create_resolved_trade(trade_id, trade.sender_id, trade.recipient_id, true);
+		if (result.resolved)
+			resolved_trade_cache.get(result.other_id)?.push(trade_id);
+	} else {
+		trade_cache.delete(trade_id);
 	}
 
-	await db_execute('DELETE FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]);
+	return { success: true, complete: result.complete, items: result.items, expires_in: result.trade.ttl } as JsonSerializable;
+});
 
-	trade_cache.delete(trade_id);
+session_post_route('/api/trade/cancel', async (req, url, client_id, json) => {
+	const trade_id = json.trade_id;
+	if (typeof trade_id !== 'number')
+		return 400; // Bad Request
+
+	const trade = await get_trade_offer(trade_id);
+	if (!trade || (trade.sender_id !== client_id && trade.recipient_id !== client_id))
+		return 400; // Bad Request
 
-	remove_player_cache_entry(trade_player_cache, trade.sender_id, trade_id);
-	remove_player_cache_entry(trade_player_cache, trade.recipient_id, trade_id);
+	const items = await cancel_trade_offer(trade, client_id);
+	if (items === null)
+		return 400; // Bad Request
 
-	return { success: true };
+	return { success: true, items } as JsonSerializable;
 });
 
 session_post_route('/api/trade/decline', async (req, url, client_id, json) => {
@@ -1167,19 +3324,14 @@ session_post_route('/api/trade/decline', async (req, url, client_id, json) => {
 		return 400; // Bad Request
 
 	const trade = await get_trade_offer(trade_id);
-	if (!trade || trade.recipient_id !== client_id)
+	if (!trade || trade.attending_id !== client_id)
 		return 400; // Bad Request
 
-	await db_execute('DELETE FROM `trade_offers` WHERE `trade_id` = ?', [trade_id]);
-	trade_cache.delete(trade_id);
-
-	remove_player_cache_entry(trade_player_cache, trade.recipient_id, trade_id);
-	remove_player_cache_entry(trade_player_cache, trade.sender_id, trade_id);
-
-	// return items to original sender
-	await create_resolved_trade(trade_id, trade.sender_id, trade.recipient_id, true);
+	const items = await cancel_trade_offer(trade, client_id);
+	if (items === null)
+		return 400; // Bad Request
 
-	return { success: true };
+	return { success: true, items } as JsonSerializable;
 });
 
 session_post_route('/api/trade/offer', async (req, url, client_id, json) => {
@@ -1191,31 +3343,50 @@ session_post_route('/api/trade/offer', async (req, url, client_id, json) => {
 	if (!validate_item_array(items))
 		return 400; // Bad Request
 
+	if (!validate_item_catalogue(items))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
 	if (!(await friendship_exists(client_id, recipient_id)))
 		return { error_lang: 'MOD_KMM_FRIENDSHIP_MISSING' };
 
+	let ttl = to_safe_int(json.ttl ?? TRADE_TTL_DEFAULT);
+	if (ttl === null)
+		return 400; // Bad Request
+
+	ttl = Math.min(Math.max(ttl, TRADE_TTL_MIN), TRADE_TTL_MAX);
+
 	if (await trade_exists(client_id, recipient_id))
 		return { error_lang: 'MOD_KMM_TRADE_EXISTS' };
 
-	const trade_id = await db_insert(
-		'INSERT INTO `trade_offers` (sender_id, recipient_id, attending_id) VALUES(?, ?, ?)',
-		[client_id, recipient_id, recipient_id]
-	);
-
-	for (const item of items) {
-		await db_execute(
-			'INSERT INTO `trade_items` (trade_id, item_id, qty, counter) VALUES(?, ?, ?, 0)',
-			[trade_id, item.id, item.qty]
+	const expires = Date.now() + ttl;
+	const trade_id = await db_transaction(async conn => {
+		const trade_id = await db_tx_insert(conn,
+			'INSERT INTO `trade_offers` (sender_id, recipient_id, attending_id, ttl, expires) VALUES(?, ?, ?, ?, ?)',
+			[client_id, recipient_id, recipient_id, ttl, expires]
 		);
-	}
 
-	const trade_entry: ActiveTrade = { trade_id, state: 0, attending_id: recipient_id };
+		for (const item of items) {
+			await db_tx_execute(conn,
+				'INSERT INTO `trade_items` (trade_id, item_id, qty, counter) VALUES(?, ?, ?, 0)',
+				[trade_id, item.id, item.qty]
+			);
+
+			await escrow_transfer(conn, item.id, item.qty, EscrowAccount.Client, client_id, EscrowAccount.TradeSender, trade_id);
+		}
+
+		return trade_id;
+	});
+
+	if (trade_id === null)
+		return 500; // Internal Server Error
+
+	const trade_entry: ActiveTrade = { trade_id, state: 0, sender_id: client_id, attending_id: recipient_id, revision: 1, sender_confirmed: 0, recipient_confirmed: 0, expires };
 	trade_cache.set(trade_id, trade_entry);
 
 	trade_player_cache.get(client_id)?.push(trade_id);
 	trade_player_cache.get(recipient_id)?.push(trade_id);
 	
-	return { success: true, trade_id } as JsonSerializable;
+	return { success: true, trade_id, expires_in: ttl } as JsonSerializable;
 });
 // #endregion
 
@@ -1264,20 +3435,151 @@ session_post_route('/api/gift/send', async (req, url, client_id, json) => {
 	if (!validate_item_array(items))
 		return 400; // Bad Request
 
+	if (!validate_item_catalogue(items))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
 	if (!(await friendship_exists(client_id, friend_id)))
 		return { error_lang: 'MOD_KMM_FRIENDSHIP_MISSING' };
 
 	if (items.length >= MAX_TRANSFER_ITEM_COUNT)
 		return { error_lang: 'MOD_KMM_TOO_MANY_ITEMS' };
 
-	if (await has_pending_gift(client_id, friend_id))
-		return { error_lang: 'MOD_KMM_PENDING_GIFT' };
+	const wrapping = validate_gift_wrapping(json);
+	if (wrapping === null)
+		return 400; // Bad Request
+
+	if ('error_lang' in wrapping)
+		return wrapping;
 
-	await send_gift(client_id, friend_id, items);
+	if (await count_pending_gifts(client_id, friend_id) >= MAX_PENDING_GIFTS_PER_RECIPIENT)
+		return { error_lang: 'MOD_KMM_PENDING_GIFT' };
 
+	if (await send_gift(client_id, friend_id, items, wrapping) === null)
+		return 500; // Internal Server Error
 
 	return { success: true } as JsonSerializable;
 });
+
+session_post_route('/api/gift/schedule', async (req, url, client_id, json) => {
+	const friend_id = json.friend_id;
+	if (typeof friend_id !== 'number')
+		return 400; // Bad Request
+
+	const items = json.items as TransferItem[];
+	if (!validate_item_array(items) || items.length === 0)
+		return 400; // Bad Request
+
+	if (!validate_item_catalogue(items))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
+	if (items.length >= MAX_TRANSFER_ITEM_COUNT)
+		return { error_lang: 'MOD_KMM_TOO_MANY_ITEMS' };
+
+	// delay until the first delivery, interval between repeats (0 for a single delivery)
+	const delay = to_safe_int(json.delay);
+	if (delay === null || delay < 0 || delay > GIFT_SCHEDULE_MAX_DELAY)
+		return 400; // Bad Request
+
+	const interval = to_safe_int(json.interval ?? 0);
+	if (interval === null || (interval !== 0 && (interval < GIFT_SCHEDULE_MIN_INTERVAL || interval > GIFT_SCHEDULE_MAX_INTERVAL)))
+		return 400; // Bad Request
+
+	const deliveries = to_safe_int(json.deliveries ?? 1);
+	if (deliveries === null || deliveries < 1 || deliveries > GIFT_SCHEDULE_MAX_DELIVERIES || (interval === 0 && deliveries !== 1))
+		return 400; // Bad Request
+
+	if (!items.every(item => Number.isSafeInteger(item.qty * deliveries)))
+		return 400; // Bad Request
+
+	const wrapping = validate_gift_wrapping(json);
+	if (wrapping === null)
+		return 400; // Bad Request
+
+	if ('error_lang' in wrapping)
+		return wrapping;
+
+	if (!(await friendship_exists(client_id, friend_id)))
+		return { error_lang: 'MOD_KMM_FRIENDSHIP_MISSING' };
+
+	if (await db_count('SELECT COUNT(*) AS `count` FROM `scheduled_gifts` WHERE `client_id` = ?', [client_id]) >= GIFT_SCHEDULE_MAX_ACTIVE)
+		return { error_lang: 'MOD_KMM_GIFT_SCHEDULE_LIMIT' };
+
+	const next_delivery = Date.now() + delay;
+
+	// every delivery is reserved from the sender up front
+	const scheduled_id = await db_transaction(async conn => {
+		const scheduled_id = await db_tx_insert(conn,
+			'INSERT INTO `scheduled_gifts` (`client_id`, `recipient_id`, `message`, `icon_id`, `next_delivery`, `repeat_interval`, `remaining`, `created`) VALUES(?, ?, ?, ?, ?, ?, ?, ?)',
+			[client_id, friend_id, wrapping.message, wrapping.icon_id, next_delivery, interval, deliveries, Date.now()]
+		);
+
+		for (const item of items) {
+			await db_tx_execute(conn, 'INSERT INTO `scheduled_gift_items` (`scheduled_id`, `item_id`, `qty`) VALUES(?, ?, ?)', [scheduled_id, item.id, item.qty]);
+			await escrow_transfer(conn, item.id, item.qty * deliveries, EscrowAccount.Client, client_id, EscrowAccount.ScheduledGift, scheduled_id);
+		}
+
+		return scheduled_id;
+	});
+
+	if (scheduled_id === null)
+		return 500; // Internal Server Error
+
+	schedule_gift_delivery(scheduled_id, next_delivery);
+
+	return { success: true, id: scheduled_id, items: items.map(item => ({ item_id: item.id, qty: item.qty * deliveries })) } as JsonSerializable;
+});
+
+session_get_route('/api/gift/scheduled', async (req, url, client_id) => {
+	const rows = await db_get_all('SELECT * FROM `scheduled_gifts` WHERE `client_id` = ? ORDER BY `next_delivery` ASC', [client_id]) as db_row.scheduled_gifts[];
+
+	const scheduled = [];
+	for (const row of rows) {
+		scheduled.push({
+			id: row.id,
+			recipient: await get_client_display(row.recipient_id),
+			items: await get_scheduled_gift_items(row.id),
+			message: row.message,
+			icon_id: row.icon_id,
+			next_delivery: row.next_delivery,
+			interval: row.repeat_interval,
+			remaining: row.remaining
+		});
+	}
+
+	return { scheduled } as JsonSerializable;
+});
+
+session_post_route('/api/gift/schedule_cancel', async (req, url, client_id, json) => {
+	const scheduled_id = json.id;
+	if (typeof scheduled_id !== 'number')
+		return 400; // Bad Request
+
+	// deliveries that have not happened yet are handed back to the sender
+	const items = await db_transaction(async conn => {
+		const scheduled = await db_tx_get_single(conn, 'SELECT * FROM `scheduled_gifts` WHERE `id` = ? LIMIT 1 FOR UPDATE', [scheduled_id]) as db_row.scheduled_gifts;
+		if (scheduled?.client_id !== client_id)
+			return null;
+
+		const rows = await db_tx_get_all(conn, 'SELECT `item_id`, `qty` FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]) as db_row.scheduled_gift_items[];
+		const items = rows.map(row => ({ item_id: row.item_id, qty: row.qty * scheduled.remaining }));
+
+		for (const item of items)
+			await escrow_transfer(conn, item.item_id, item.qty, EscrowAccount.ScheduledGift, scheduled_id, EscrowAccount.Client, client_id);
+
+		await db_tx_execute(conn, 'DELETE FROM `scheduled_gifts` WHERE `id` = ?', [scheduled_id]);
+		await db_tx_execute(conn, 'DELETE FROM `scheduled_gift_items` WHERE `scheduled_id` = ?', [scheduled_id]);
+
+		return items;
+	});
+
+	if (items === null)
+		return 400; // Bad Request
+
+	clearTimeout(scheduled_gift_timers.get(scheduled_id));
+	scheduled_gift_timers.delete(scheduled_id);
+
+	return { success: true, items } as JsonSerializable;
+});
 // #endregion
 
 // #region ROUTES FRIENDS
@@ -1287,6 +3589,7 @@ session_post_route('/api/friends/remove', async (req, url, client_id, json) => {
 		return 400; // Bad Request
 
 	await delete_friend(client_id, friend_id);
+	await remove_shared_team_member(client_id, friend_id);
 
 	return { success: true };
 });
@@ -1368,34 +3671,54 @@ session_get_route('/api/events', async (req, url, client_id) => {
 		if (!meta)
 			continue;
 
+		const is_sender = meta.sender_id === client_id;
+
 		trade_meta.push({
 			trade_id,
-			attending: meta.attending_id === client_id,
-			state: meta.state
+			attending: meta.attending_id === client_id, // true when it is this player's turn
+			state: meta.state,
+			revision: meta.revision,
+			confirmed: (is_sender ? meta.sender_confirmed : meta.recipient_confirmed) === meta.revision,
+			other_confirmed: (is_sender ? meta.recipient_confirmed : meta.sender_confirmed) === meta.revision,
+			expires_in: Math.max(meta.expires - Date.now(), 0)
 		});
 	}
 
+	const primary_campaign = get_primary_campaign();
+
 	return {
 		friend_requests: await get_friend_requests(client_id),
 		gifts: await get_client_gifts(client_id),
 		trades: trade_meta,
 		resolved_trades: await get_client_resolved_trades(client_id),
-		campaign: get_campaign_progress(),
-		market_completed: await get_market_completed(client_id)
+		campaign: primary_campaign === undefined ? { active: false, pct: 0 } : get_campaign_progress(primary_campaign),
+		campaigns: [...active_campaigns.values()].map(get_campaign_progress),
+		market_completed: await get_market_completed(client_id),
+		market_orders_filled: await get_market_orders_filled(client_id),
+		campaign_milestones: await get_campaign_milestones_pending(client_id)
 	};
 });
 
+session_get_route('/api/client/icons', async (req, url, client_id) => {
+	// the icon picker is built from the catalogue so it never offers an icon the server rejects
+	const icons = [...item_catalogue.keys()].filter(is_vanilla_icon);
+	return { icons };
+});
+
 session_post_route('/api/client/set_icon', async (req, url, client_id, json) => {
 	const icon_id = json.icon_id;
 	if (typeof icon_id !== 'string')
 		return 400; // Bad Request
 
-	if (!icon_id.startsWith('melvorF:') && !icon_id.startsWith('melvorD:'))
+	if (!is_vanilla_icon(icon_id))
 		return 400; // Bad Request
 
+	if (!is_known_item(icon_id))
+		return { error_lang: 'MOD_KMM_UNKNOWN_ITEM' };
+
 	await db_execute('UPDATE `clients` SET `icon_id` = ? WHERE `id` = ?', [icon_id, client_id]);
 
-	return { success: true };
+	return { success: true } as JsonSerializable;
 });
 // #endregion
 
@@ -1459,6 +3782,34 @@ server.error((err: Error) => {
 // unhandled response codes.
 server.default((req, status_code) => default_handler(status_code));
 
+// reload campaign definitions without a restart
+if (typeof process.env.ADMIN_TOKEN === 'string') {
+	const admin_token = process.env.ADMIN_TOKEN;
+	server.route('/internal/campaigns/reload', async (req) => {
+		if (req.headers.get('X-Admin-Token') !== admin_token)
+			return 401; // Unauthorized
+
+		try {
+			await reload_campaign_config();
+		} catch (e) {
+			caution('campaign config reload failed', { e });
+			return { success: false, error: (e as Error).message };
+		}
+
+		return { success: true, slots: campaign_config.slots.length, campaigns: campaign_config.campaigns.length };
+	}, 'POST');
+
+	// checks that every item the escrow ledger says is held matches the gift, trade and market tables
+	server.route('/internal/escrow/audit', async (req) => {
+		if (req.headers.get('X-Admin-Token') !== admin_token)
+			return 401; // Unauthorized
+
+		return await audit_escrow_ledger() as JsonSerializable;
+	});
+} else {
+	caution('ADMIN_TOKEN environment variable not configured');
+}
+
 // source control webhook
 if (typeof process.env.GH_WEBHOOK_SECRET === 'string') {
 	server.webhook(process.env.GH_WEBHOOK_SECRET, '/internal/webhook', () => {
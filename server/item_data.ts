@@ -0,0 +1,48 @@
+export type ItemData = {
+	id: string;
+	category: string;
+	sells_for: number;
+}
+
+// base game items known to the server, anything with a melvor namespace not listed here is rejected.
+export const ITEM_CATALOGUE_FILE = './data/items.json';
+
+const ITEM_ID_PATTERN = /^melvor[A-Za-z]+:\w+$/;
+
+export function parse_item_catalogue(data: any): ItemData[] {
+	const errors = [] as string[];
+	const items = [] as ItemData[];
+	const seen = new Set<string>();
+
+	if (!Array.isArray(data) || data.length === 0)
+		throw new Error('invalid item catalogue: must be a non-empty array');
+
+	for (let i = 0; i < data.length; i++) {
+		const entry = data[i];
+		const path = '[' + i + ']';
+
+		if (typeof entry?.id !== 'string' || !ITEM_ID_PATTERN.test(entry.id)) {
+			errors.push(path + '.id must be a namespaced base game item id');
+			continue;
+		}
+
+		if (seen.has(entry.id)) {
+			errors.push(path + ' duplicates id ' + entry.id);
+			continue;
+		}
+
+		if (typeof entry.category !== 'string' || entry.category.length === 0)
+			errors.push(path + '.category must be a non-empty string');
+
+		if (!Number.isInteger(entry.sells_for) || entry.sells_for < 0)
+			errors.push(path + '.sells_for must be a non-negative integer');
+
+		seen.add(entry.id);
+		items.push({ id: entry.id, category: entry.category, sells_for: entry.sells_for });
+	}
+
+	if (errors.length > 0)
+		throw new Error('invalid item catalogue: ' + errors.join(', '));
+
+	return items;
+}
\ No newline at end of file